@@ -67,9 +67,37 @@ export class Setting {
 	addSlider() { return this; }
 }
 
-export class TFile {
-	path: string;
-	constructor(path: string) { this.path = path; }
+export class Events {
+	private handlers: { name: string; callback: (...args: any[]) => any }[] = [];
+	on(name: string, callback: (...args: any[]) => any) {
+		const ref = { name, callback };
+		this.handlers.push(ref);
+		return ref;
+	}
+	offref(ref: any) { this.handlers = this.handlers.filter((h) => h !== ref); }
+	trigger(name: string, ...args: any[]) {
+		for (const h of this.handlers.filter((h) => h.name === name)) h.callback(...args);
+	}
+}
+
+export class TAbstractFile {
+	path = "";
+}
+
+export class TFile extends TAbstractFile {
+	extension: string;
+	stat = { size: 0, ctime: 0, mtime: 0 };
+	constructor(path: string) {
+		super();
+		this.path = path;
+		this.extension = path.split(".").pop() ?? "";
+	}
+}
+
+export class TFolder extends TAbstractFile {}
+
+export function normalizePath(path: string) {
+	return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
 }
 
 export class MarkdownView extends ItemView {
@@ -1,3 +1,13 @@
 // Generic stub for xterm addons that need no special behavior
 export class Unicode11Addon {}
 export class WebLinksAddon {}
+export class SerializeAddon {
+	serialize() { return ""; }
+}
+export class SearchAddon {
+	findNext() { return false; }
+	findPrevious() { return false; }
+	clearDecorations() {}
+	onDidChangeResults() { return { dispose() {} }; }
+	dispose() {}
+}
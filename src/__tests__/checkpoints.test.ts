@@ -0,0 +1,171 @@
+import { TFile, TFolder } from "obsidian";
+import { CheckpointStore, updatePromptBuffer, isPromptSubmission } from "../checkpoints";
+
+describe("updatePromptBuffer", () => {
+	it("collects typed text until Enter", () => {
+		let state = updatePromptBuffer("", "hel");
+		state = updatePromptBuffer(state.buffer, "lo");
+		expect(state).toEqual({ buffer: "hello", submitted: undefined });
+		expect(updatePromptBuffer(state.buffer, "\r")).toEqual({ buffer: "", submitted: "hello" });
+	});
+
+	it("applies backspace and clears on Ctrl+C / Ctrl+U", () => {
+		expect(updatePromptBuffer("abc", "\x7f\x7fx").buffer).toBe("ax");
+		expect(updatePromptBuffer("abc", "\x03").buffer).toBe("");
+		expect(updatePromptBuffer("abc", "\x15z").buffer).toBe("z");
+	});
+
+	it("ignores arrow keys and other escape sequences", () => {
+		expect(updatePromptBuffer("ab", "\x1b[D\x1b[Ac\x1bOP").buffer).toBe("abc");
+	});
+
+	it("keeps bracketed pastes on one line without submitting", () => {
+		const state = updatePromptBuffer("see ", "\x1b[200~line one\rline two\x1b[201~");
+		expect(state).toEqual({ buffer: "see line one line two", submitted: undefined });
+	});
+
+	it("submits text typed in the same chunk as Enter", () => {
+		expect(updatePromptBuffer("", "fix it\r").submitted).toBe("fix it");
+	});
+});
+
+describe("isPromptSubmission", () => {
+	it("skips menu choices and one-key answers", () => {
+		expect(isPromptSubmission("2")).toBe(false);
+		expect(isPromptSubmission("12")).toBe(false);
+		expect(isPromptSubmission("y")).toBe(false);
+		expect(isPromptSubmission("fix the tests")).toBe(true);
+		expect(isPromptSubmission("/clear")).toBe(true);
+	});
+});
+
+const makeFile = (path: string) => new (TFile as any)(path) as TFile;
+
+/** Vault holding note contents, plus an adapter backed by a plain map */
+function createVault(initial: Record<string, string>) {
+	const notes = new Map(Object.entries(initial));
+	const data = new Map<string, string>();
+	const vault = {
+		adapter: {
+			exists: async (p: string) => data.has(p) || [...data.keys()].some((k) => k.startsWith(p + "/")),
+			mkdir: async () => {},
+			read: async (p: string) => {
+				if (!data.has(p)) throw new Error("missing");
+				return data.get(p)!;
+			},
+			write: async (p: string, content: string) => void data.set(p, content),
+			remove: async (p: string) => void data.delete(p),
+		},
+		getAbstractFileByPath: (p: string) => (notes.has(p) ? makeFile(p) : p === "folder" ? new (TFolder as any)() : null),
+		read: async (file: TFile) => notes.get(file.path)!,
+		modify: async (file: TFile, content: string) => void notes.set(file.path, content),
+		create: async (p: string, content: string) => void notes.set(p, content),
+		delete: async (file: TFile) => void notes.delete(file.path),
+		createFolder: async () => {},
+	};
+	return { vault, notes, data };
+}
+
+describe("CheckpointStore", () => {
+	it("restores the vault to the state at a checkpoint", async () => {
+		const { vault, notes } = createVault({ "a.md": "a1", "b.md": "b1" });
+		const store = new CheckpointStore(vault as any, "plugin/checkpoints");
+
+		await store.create("first");
+		notes.set("a.md", "a2");
+		store.noteChange("a.md", "a1");
+
+		await store.create("second");
+		notes.set("a.md", "a3");
+		store.noteChange("a.md", "a2");
+		notes.set("b.md", "b2");
+		store.noteChange("b.md", "b1");
+		notes.set("new.md", "n");
+		store.noteChange("new.md", null);
+
+		const [second, first] = await store.list();
+		expect(second).toMatchObject({ prompt: "second", paths: ["a.md", "b.md", "new.md"] });
+
+		expect(await store.restore(second.id)).toEqual({ restored: 3, uncaptured: [] });
+		expect(Object.fromEntries(notes)).toEqual({ "a.md": "a2", "b.md": "b1" });
+
+		await store.restore(first.id);
+		expect(Object.fromEntries(notes)).toEqual({ "a.md": "a1", "b.md": "b1" });
+	});
+
+	it("only keeps the first change to a file per checkpoint", async () => {
+		const { vault } = createVault({});
+		const store = new CheckpointStore(vault as any, "cp");
+		await store.create("prompt");
+		store.noteChange("a.md", "original");
+		store.noteChange("a.md", "later");
+		const [checkpoint] = await store.list();
+		expect(checkpoint.paths).toEqual(["a.md"]);
+	});
+
+	it("reports files whose content before the change wasn't captured", async () => {
+		const { vault, notes } = createVault({ "a.md": "a1", "big.md": "b2" });
+		const store = new CheckpointStore(vault as any, "cp");
+		await store.create("first");
+		store.noteChange("big.md", undefined);
+		store.noteChange("big.md", "b2");
+		await store.create("second");
+		store.noteChange("a.md", "a1");
+		notes.set("a.md", "a2");
+
+		const [second, first] = await store.list();
+		expect(first).toMatchObject({ paths: ["big.md"], uncaptured: ["big.md"] });
+		expect(await store.uncapturedFiles(second.id)).toEqual([]);
+		expect(await store.uncapturedFiles(first.id)).toEqual(["big.md"]);
+
+		expect(await store.restore(first.id)).toEqual({ restored: 1, uncaptured: ["big.md"] });
+		expect(Object.fromEntries(notes)).toEqual({ "a.md": "a1", "big.md": "b2" });
+	});
+
+	it("ignores changes before the first checkpoint", async () => {
+		const { vault } = createVault({});
+		const store = new CheckpointStore(vault as any, "cp");
+		store.noteChange("a.md", "x");
+		expect(await store.list()).toEqual([]);
+	});
+
+	it("makes a checkpoint before restoring so the restore can be undone", async () => {
+		const { vault } = createVault({ "a.md": "a1" });
+		const store = new CheckpointStore(vault as any, "cp");
+		await store.create("edit a");
+		store.noteChange("a.md", "a1");
+		const [checkpoint] = await store.list();
+		await store.restore(checkpoint.id);
+		const [latest] = await store.list();
+		expect(latest.prompt).toBe('Before restoring "edit a"');
+	});
+
+	it("saves the files a restore overwrites without any change events", async () => {
+		const { vault, notes } = createVault({ "a.md": "a1" });
+		const store = new CheckpointStore(vault as any, "cp");
+		await store.create("edit a");
+		store.noteChange("a.md", "a1");
+		notes.set("a.md", "a2");
+		notes.set("new.md", "n");
+		store.noteChange("new.md", null);
+
+		const [checkpoint] = await store.list();
+		await store.restore(checkpoint.id);
+		expect(Object.fromEntries(notes)).toEqual({ "a.md": "a1" });
+
+		const [undo] = await store.list();
+		await store.restore(undo.id);
+		expect(Object.fromEntries(notes)).toEqual({ "a.md": "a2", "new.md": "n" });
+	});
+
+	it("persists checkpoints across instances", async () => {
+		const { vault } = createVault({});
+		const first = new CheckpointStore(vault as any, "cp");
+		await first.create("saved");
+		first.noteChange("a.md", "x");
+		await first.flush();
+
+		const second = new CheckpointStore(vault as any, "cp");
+		expect((await second.list()).map((c) => c.prompt)).toEqual(["saved"]);
+	});
+});
@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { claudeProjectDir, parseSessionTranscript, listClaudeSessions } from "../claude-sessions";
+
+function jsonl(...entries: object[]): string {
+	return entries.map((e) => JSON.stringify(e)).join("\n") + "\n";
+}
+
+describe("claudeProjectDir", () => {
+	it("encodes the cwd the same way the Claude CLI does", () => {
+		expect(claudeProjectDir("/Users/me/My Vault.v2", "/Users/me")).toBe(
+			"/Users/me/.claude/projects/-Users-me-My-Vault-v2",
+		);
+	});
+});
+
+/** Parse transcript text the way files are read, line by line */
+const parse = (text: string, timestamp: Date | null = null) => parseSessionTranscript("s", text.split("\n"), timestamp);
+
+describe("parseSessionTranscript", () => {
+	it("extracts the first prompt and uses the given time", async () => {
+		const time = new Date("2025-01-01T10:02:00Z");
+		const text = jsonl(
+			{ type: "user", timestamp: "2025-01-01T10:00:00Z", message: { role: "user", content: "Fix the   tests\nplease" } },
+			{ type: "assistant", timestamp: "2025-01-01T10:01:00Z", message: { role: "assistant", content: [] } },
+		);
+		const session = (await parseSessionTranscript("abc", text.split("\n"), time))!;
+		expect(session).toEqual({ id: "abc", firstPrompt: "Fix the tests please", summary: null, timestamp: time, messageCount: 2 });
+	});
+
+	it("only counts messages after the first prompt, without parsing them", async () => {
+		const parseJson = vi.spyOn(JSON, "parse");
+		const text = jsonl(
+			{ type: "user", message: { content: "first" } },
+			{ type: "assistant", message: { content: [{ type: "text", text: 'quoting {"type":"user"}' }] } },
+			{ type: "user", message: { content: "second" } },
+			{ type: "file-history-snapshot" },
+		);
+		const session = (await parse(text))!;
+		expect(session).toMatchObject({ firstPrompt: "first", messageCount: 3 });
+		expect(parseJson).toHaveBeenCalledTimes(1);
+		parseJson.mockRestore();
+	});
+
+	it("reads text parts from array content and skips tool results", async () => {
+		const text = jsonl(
+			{ type: "user", message: { content: [{ type: "tool_result", content: "x" }] } },
+			{ type: "user", message: { content: [{ type: "text", text: "Summarize" }, { type: "text", text: "notes" }] } },
+		);
+		expect((await parse(text))!.firstPrompt).toBe("Summarize notes");
+	});
+
+	it("skips meta entries and slash-command markup when picking the first prompt", async () => {
+		const text = jsonl(
+			{ type: "user", isMeta: true, message: { content: "Caveat: local commands" } },
+			{ type: "user", message: { content: "<command-name>/clear</command-name>" } },
+			{ type: "user", message: { content: "Real question" } },
+		);
+		expect((await parse(text))!.firstPrompt).toBe("Real question");
+	});
+
+	it("picks up the summary line", async () => {
+		const text = jsonl(
+			{ type: "summary", summary: "Refactor parser" },
+			{ type: "user", message: { content: "go" } },
+		);
+		expect((await parse(text))!.summary).toBe("Refactor parser");
+	});
+
+	it("truncates long prompts", async () => {
+		const text = jsonl({ type: "user", message: { content: "x".repeat(500) } });
+		const prompt = (await parse(text))!.firstPrompt;
+		expect(prompt.length).toBe(200);
+		expect(prompt.endsWith("…")).toBe(true);
+	});
+
+	it("ignores malformed lines", async () => {
+		const text = "{not json\n" + jsonl({ type: "user", message: { content: "ok" } });
+		expect(await parse(text)).toMatchObject({ firstPrompt: "ok", messageCount: 1 });
+	});
+
+	it("returns null when there are no messages", async () => {
+		expect(await parse(jsonl({ type: "summary", summary: "x" }))).toBeNull();
+	});
+});
+
+describe("listClaudeSessions", () => {
+	let home: string;
+	const originalHome = process.env.HOME;
+
+	beforeEach(() => {
+		home = fs.mkdtempSync(path.join(os.tmpdir(), "claude-sessions-"));
+		process.env.HOME = home;
+	});
+
+	afterEach(() => {
+		process.env.HOME = originalHome;
+		fs.rmSync(home, { recursive: true, force: true });
+	});
+
+	it("skips transcripts that disappear before they're read", async () => {
+		const dir = claudeProjectDir("/vault", home);
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(path.join(dir, "kept.jsonl"), jsonl({ type: "user", message: { content: "hello" } }));
+		// A dangling link is listed but can't be stat'ed, like a file deleted in between
+		fs.symlinkSync(path.join(dir, "missing"), path.join(dir, "gone.jsonl"));
+
+		const sessions = await listClaudeSessions("/vault");
+		expect(sessions.map((s) => [s.id, s.firstPrompt])).toEqual([["kept", "hello"]]);
+	});
+});
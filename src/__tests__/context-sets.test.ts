@@ -0,0 +1,44 @@
+import { normalizeTag, hasTag, countTags, manifestName, formatManifest } from "../context-sets";
+
+describe("normalizeTag", () => {
+	it("lower-cases and adds a leading #", () => {
+		expect(normalizeTag(" Project/Alpha ")).toBe("#project/alpha");
+		expect(normalizeTag("#Todo")).toBe("#todo");
+	});
+});
+
+describe("hasTag", () => {
+	it("matches the tag itself, case-insensitively", () => {
+		expect(hasTag(["#Project/Alpha"], "#project/alpha")).toBe(true);
+	});
+
+	it("matches nested tags", () => {
+		expect(hasTag(["#project/alpha/design"], "project/alpha")).toBe(true);
+	});
+
+	it("does not match tags that merely share a prefix", () => {
+		expect(hasTag(["#project/alphabet"], "#project/alpha")).toBe(false);
+		expect(hasTag(["#project"], "#project/alpha")).toBe(false);
+	});
+});
+
+describe("countTags", () => {
+	it("counts each tag once per file, most used first", () => {
+		expect(countTags([["#a", "#b", "#A"], ["#b"], []])).toEqual([["#b", 2], ["#a", 1]]);
+	});
+});
+
+describe("manifestName", () => {
+	it("prefixes a timestamp and strips characters not allowed in file names", () => {
+		expect(manifestName("tag #project/alpha", new Date(2025, 0, 2, 3, 4))).toBe("2025-01-02 0304 tag -project-alpha");
+	});
+});
+
+describe("formatManifest", () => {
+	it("lists every path on its own line", () => {
+		const text = formatManifest("folder notes", ["a.md", "b/c.md"]);
+		expect(text).toContain("# Context: folder notes");
+		expect(text).toContain("2 files");
+		expect(text).toContain("- a.md\n- b/c.md");
+	});
+});
@@ -0,0 +1,87 @@
+import { parseKeyCombo, matchesKeyCombo, findKeyBinding, formatKeyEvent, decodeKeySequence } from "../key-bindings";
+import type { KeyBinding } from "../constants";
+
+function key(key: string, mods: { ctrl?: boolean; meta?: boolean; alt?: boolean; shift?: boolean } = {}) {
+	return { key, ctrlKey: !!mods.ctrl, metaKey: !!mods.meta, altKey: !!mods.alt, shiftKey: !!mods.shift };
+}
+
+describe("parseKeyCombo", () => {
+	it("splits modifiers and key", () => {
+		expect(parseKeyCombo("Mod+Shift+K")).toEqual({ modifiers: ["Mod", "Shift"], key: "k" });
+		expect(parseKeyCombo("shift + enter")).toEqual({ modifiers: ["Shift"], key: "Enter" });
+		expect(parseKeyCombo("Ctrl++")).toEqual({ modifiers: ["Ctrl"], key: "+" });
+		expect(parseKeyCombo("Alt+Space")).toEqual({ modifiers: ["Alt"], key: " " });
+	});
+
+	it("rejects unknown modifiers and missing keys", () => {
+		expect(parseKeyCombo("Hyper+K")).toBeNull();
+		expect(parseKeyCombo("Mod+")).toBeNull();
+		expect(parseKeyCombo("")).toBeNull();
+	});
+});
+
+describe("matchesKeyCombo", () => {
+	const modK = parseKeyCombo("Mod+K")!;
+
+	it("maps Mod to Cmd on macOS and Ctrl elsewhere", () => {
+		expect(matchesKeyCombo(modK, key("k", { meta: true }), true)).toBe(true);
+		expect(matchesKeyCombo(modK, key("k", { ctrl: true }), true)).toBe(false);
+		expect(matchesKeyCombo(modK, key("k", { ctrl: true }), false)).toBe(true);
+	});
+
+	it("matches letters by physical key when Option changes the character", () => {
+		const altK = parseKeyCombo("Alt+K")!;
+		expect(matchesKeyCombo(altK, { ...key("˚", { alt: true }), code: "KeyK" }, true)).toBe(true);
+	});
+
+	it("requires exactly the listed modifiers", () => {
+		expect(matchesKeyCombo(modK, key("K", { ctrl: true, shift: true }), false)).toBe(false);
+		const shiftEnter = parseKeyCombo("Shift+Enter")!;
+		expect(matchesKeyCombo(shiftEnter, key("Enter", { shift: true }), false)).toBe(true);
+		expect(matchesKeyCombo(shiftEnter, key("Enter"), false)).toBe(false);
+	});
+});
+
+describe("findKeyBinding", () => {
+	const bindings: KeyBinding[] = [
+		{ key: "not a+key", action: "terminal", text: "" },
+		{ key: "Mod+Shift+L", action: "terminal", text: "" },
+		{ key: "Mod+Shift+L", action: "obsidian", text: "" },
+	];
+
+	it("returns the first match and skips invalid entries", () => {
+		expect(findKeyBinding(bindings, key("L", { ctrl: true, shift: true }), false)?.action).toBe("terminal");
+		expect(findKeyBinding(bindings, key("l", { ctrl: true }), false)).toBeNull();
+	});
+});
+
+describe("formatKeyEvent", () => {
+	it("writes the combination for a key press", () => {
+		expect(formatKeyEvent(key("k", { meta: true, shift: true }), true)).toBe("Mod+Shift+K");
+		expect(formatKeyEvent(key("k", { ctrl: true }), true)).toBe("Ctrl+K");
+		expect(formatKeyEvent(key("Enter", { shift: true }), false)).toBe("Shift+Enter");
+		expect(formatKeyEvent(key(" ", { alt: true }), false)).toBe("Alt+Space");
+	});
+
+	it("ignores bare modifier presses", () => {
+		expect(formatKeyEvent(key("Shift", { shift: true }), false)).toBeNull();
+	});
+
+	it("round-trips through parseKeyCombo", () => {
+		const event = key("ArrowUp", { ctrl: true, alt: true });
+		expect(matchesKeyCombo(parseKeyCombo(formatKeyEvent(event, false)!)!, event, false)).toBe(true);
+	});
+});
+
+describe("decodeKeySequence", () => {
+	it("decodes escapes", () => {
+		expect(decodeKeySequence("\\n")).toBe("\n");
+		expect(decodeKeySequence("\\e[A\\r")).toBe("\x1b[A\r");
+		expect(decodeKeySequence("\\x0c\\u001b")).toBe("\x0c\x1b");
+		expect(decodeKeySequence("a\\\\b")).toBe("a\\b");
+	});
+
+	it("keeps unknown escapes and plain text", () => {
+		expect(decodeKeySequence("\\q ls")).toBe("\\q ls");
+	});
+});
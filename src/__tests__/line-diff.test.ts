@@ -0,0 +1,116 @@
+import { diffLines, buildHunks, revertHunk, findHunk, splitLines } from "../line-diff";
+
+const lines = (n: number, from = 1) => Array.from({ length: n }, (_, i) => `line ${i + from}`);
+
+describe("splitLines", () => {
+	it("treats empty text as no lines", () => {
+		expect(splitLines("")).toEqual([]);
+		expect(splitLines("a\nb")).toEqual(["a", "b"]);
+	});
+});
+
+describe("diffLines", () => {
+	it("marks unchanged text as equal", () => {
+		expect(diffLines("a\nb", "a\nb").every((op) => op.type === "equal")).toBe(true);
+	});
+
+	it("finds a replaced line", () => {
+		expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+			{ type: "equal", text: "a" },
+			{ type: "delete", text: "b" },
+			{ type: "insert", text: "x" },
+			{ type: "equal", text: "c" },
+		]);
+	});
+
+	it("handles insertions and deletions away from the ends", () => {
+		const ops = diffLines("a\nb\nc\nd", "a\nc\nd\ne");
+		expect(ops.filter((op) => op.type !== "equal")).toEqual([
+			{ type: "delete", text: "b" },
+			{ type: "insert", text: "e" },
+		]);
+	});
+
+	it("diffs against an empty original", () => {
+		expect(diffLines("", "new")).toEqual([{ type: "insert", text: "new" }]);
+	});
+});
+
+describe("buildHunks", () => {
+	it("returns no hunks for identical text", () => {
+		expect(buildHunks(diffLines("a", "a"))).toEqual([]);
+	});
+
+	it("adds context and unified-diff line numbers", () => {
+		const before = lines(10).join("\n");
+		const after = before.replace("line 5", "changed");
+		const [hunk] = buildHunks(diffLines(before, after));
+		expect(hunk).toMatchObject({ oldStart: 2, oldLines: 7, newStart: 2, newLines: 7 });
+	});
+
+	it("separates distant changes and merges nearby ones", () => {
+		const before = lines(30);
+		const far = [...before];
+		far[2] = "x";
+		far[25] = "y";
+		expect(buildHunks(diffLines(before.join("\n"), far.join("\n")))).toHaveLength(2);
+
+		const near = [...before];
+		near[2] = "x";
+		near[6] = "y";
+		expect(buildHunks(diffLines(before.join("\n"), near.join("\n")))).toHaveLength(1);
+	});
+});
+
+describe("revertHunk", () => {
+	it("undoes only the chosen hunk", () => {
+		const before = lines(30);
+		const after = [...before];
+		after[2] = "x";
+		after.splice(25, 1);
+		const ops = diffLines(before.join("\n"), after.join("\n"));
+		const [first, second] = buildHunks(ops);
+
+		const firstReverted = revertHunk(ops, first).split("\n");
+		expect(firstReverted[2]).toBe("line 3");
+		expect(firstReverted).not.toContain("line 26");
+
+		const secondReverted = revertHunk(ops, second).split("\n");
+		expect(secondReverted[2]).toBe("x");
+		expect(secondReverted).toContain("line 26");
+	});
+
+	it("restores the original when the only hunk is reverted", () => {
+		const ops = diffLines("a\nb\nc\n", "a\nB\nc\nd\n");
+		const [hunk] = buildHunks(ops);
+		expect(revertHunk(ops, hunk)).toBe("a\nb\nc\n");
+	});
+});
+
+describe("findHunk", () => {
+	const before = lines(30);
+
+	it("finds a shown hunk in a newer diff of the file", () => {
+		const after = [...before];
+		after[2] = "x";
+		const shown = diffLines(before.join("\n"), after.join("\n"));
+		const [hunk] = buildHunks(shown);
+
+		// Another change elsewhere shifts nothing within the hunk
+		after[25] = "y";
+		const ops = diffLines(before.join("\n"), after.join("\n"));
+		const found = findHunk(ops, shown.slice(hunk.start, hunk.end));
+		expect(found).not.toBeNull();
+		expect(revertHunk(ops, found!).split("\n")).toEqual([...before.slice(0, 25), "y", ...before.slice(26)]);
+	});
+
+	it("returns null once the hunk's lines have changed", () => {
+		const after = [...before];
+		after[2] = "x";
+		const shown = diffLines(before.join("\n"), after.join("\n"));
+		const [hunk] = buildHunks(shown);
+
+		after[2] = "z";
+		expect(findHunk(diffLines(before.join("\n"), after.join("\n")), shown.slice(hunk.start, hunk.end))).toBeNull();
+	});
+});
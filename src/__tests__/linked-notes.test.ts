@@ -0,0 +1,50 @@
+import { collectLinkedNotes } from "../linked-notes";
+
+// a → b → c → d, e → a (backlink to a), b → a (cycle)
+const links = {
+	"a.md": { "b.md": 1 },
+	"b.md": { "c.md": 2, "a.md": 1 },
+	"c.md": { "d.md": 1 },
+	"e.md": { "a.md": 1 },
+};
+
+describe("collectLinkedNotes", () => {
+	it("includes the starting note first", () => {
+		const result = collectLinkedNotes("a.md", links, { depth: 1, backlinks: false, maxFiles: 10 });
+		expect(result[0]).toEqual({ path: "a.md", depth: 0, via: "start" });
+	});
+
+	it("follows outgoing links to the given depth", () => {
+		const paths = (depth: number) =>
+			collectLinkedNotes("a.md", links, { depth, backlinks: false, maxFiles: 10 }).map((n) => n.path);
+		expect(paths(1)).toEqual(["a.md", "b.md"]);
+		expect(paths(2)).toEqual(["a.md", "b.md", "c.md"]);
+		expect(paths(3)).toEqual(["a.md", "b.md", "c.md", "d.md"]);
+	});
+
+	it("records the hop count and how each note was reached", () => {
+		const result = collectLinkedNotes("a.md", links, { depth: 2, backlinks: true, maxFiles: 10 });
+		expect(result).toContainEqual({ path: "c.md", depth: 2, via: "link" });
+		expect(result).toContainEqual({ path: "e.md", depth: 1, via: "backlink" });
+	});
+
+	it("skips backlinks unless enabled", () => {
+		const result = collectLinkedNotes("a.md", links, { depth: 1, backlinks: false, maxFiles: 10 });
+		expect(result.map((n) => n.path)).not.toContain("e.md");
+	});
+
+	it("visits each note once despite cycles", () => {
+		const result = collectLinkedNotes("a.md", links, { depth: 5, backlinks: true, maxFiles: 10 });
+		const paths = result.map((n) => n.path);
+		expect(paths.length).toBe(new Set(paths).size);
+	});
+
+	it("stops at maxFiles, keeping the nearest notes", () => {
+		const result = collectLinkedNotes("a.md", links, { depth: 5, backlinks: true, maxFiles: 3 });
+		expect(result.map((n) => n.path)).toEqual(["a.md", "b.md", "e.md"]);
+	});
+
+	it("handles notes with no links", () => {
+		expect(collectLinkedNotes("z.md", links, { depth: 3, backlinks: true, maxFiles: 10 })).toHaveLength(1);
+	});
+});
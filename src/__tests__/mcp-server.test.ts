@@ -0,0 +1,164 @@
+import * as http from "http";
+import * as fs from "fs";
+import { handleRpc, McpServer, McpTool, ToolError } from "../mcp-server";
+
+const info = { name: "test", version: "1.0.0" };
+
+const tools: McpTool[] = [
+	{
+		name: "echo",
+		description: "Echo the arguments",
+		inputSchema: { type: "object", properties: { text: { type: "string" } } },
+		handler: (args) => args,
+	},
+	{
+		name: "greet",
+		description: "Return a string",
+		inputSchema: { type: "object" },
+		handler: () => "hello",
+	},
+	{
+		name: "fail",
+		description: "Always fails",
+		inputSchema: { type: "object" },
+		handler: () => {
+			throw new ToolError("bad arguments");
+		},
+	},
+];
+
+describe("handleRpc", () => {
+	it("negotiates a supported protocol version", async () => {
+		const res = await handleRpc(
+			{ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26" } },
+			tools, info,
+		);
+		expect(res?.result).toMatchObject({ protocolVersion: "2025-03-26", capabilities: { tools: {} }, serverInfo: info });
+	});
+
+	it("falls back to the latest version for unknown ones", async () => {
+		const res = await handleRpc(
+			{ jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "1999-01-01" } },
+			tools, info,
+		);
+		expect((res?.result as any).protocolVersion).toBe("2025-06-18");
+	});
+
+	it("returns no response for notifications", async () => {
+		expect(await handleRpc({ jsonrpc: "2.0", method: "notifications/initialized" }, tools, info)).toBeNull();
+	});
+
+	it("lists tools without their handlers", async () => {
+		const res = await handleRpc({ jsonrpc: "2.0", id: 2, method: "tools/list" }, tools, info);
+		const listed = (res?.result as any).tools;
+		expect(listed.map((t: any) => t.name)).toEqual(["echo", "greet", "fail"]);
+		expect(listed[0]).not.toHaveProperty("handler");
+	});
+
+	it("returns JSON tool results as text content", async () => {
+		const res = await handleRpc(
+			{ jsonrpc: "2.0", id: 3, method: "tools/call", params: { name: "echo", arguments: { text: "hi" } } },
+			tools, info,
+		);
+		expect(res?.result).toEqual({ content: [{ type: "text", text: JSON.stringify({ text: "hi" }, null, 2) }] });
+	});
+
+	it("returns string results unquoted", async () => {
+		const res = await handleRpc({ jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "greet" } }, tools, info);
+		expect((res?.result as any).content[0].text).toBe("hello");
+	});
+
+	it("reports tool errors as isError results", async () => {
+		const res = await handleRpc({ jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "fail" } }, tools, info);
+		expect(res?.result).toEqual({ content: [{ type: "text", text: "bad arguments" }], isError: true });
+	});
+
+	it("rejects unknown tools and methods", async () => {
+		const unknownTool = await handleRpc({ jsonrpc: "2.0", id: 6, method: "tools/call", params: { name: "x" } }, tools, info);
+		expect(unknownTool?.error?.code).toBe(-32602);
+		const unknownMethod = await handleRpc({ jsonrpc: "2.0", id: 7, method: "resources/list" }, tools, info);
+		expect(unknownMethod?.error?.code).toBe(-32601);
+	});
+
+	it("rejects malformed messages", async () => {
+		const res = await handleRpc({ id: 8 } as any, tools, info);
+		expect(res?.error?.code).toBe(-32600);
+	});
+});
+
+describe("McpServer", () => {
+	let server: McpServer;
+
+	beforeEach(async () => {
+		server = new McpServer(tools, info);
+		await server.start();
+	});
+
+	afterEach(() => server.stop());
+
+	function post(body: string, headers: Record<string, string> = {}): Promise<{ status: number; body: string }> {
+		return new Promise((resolve, reject) => {
+			const req = http.request(server.url!, {
+				method: "POST",
+				headers: { "Content-Type": "application/json", Authorization: `Bearer ${server.token}`, ...headers },
+			}, (res) => {
+				let data = "";
+				res.on("data", (chunk) => (data += chunk));
+				res.on("end", () => resolve({ status: res.statusCode!, body: data }));
+			});
+			req.on("error", reject);
+			req.end(body);
+		});
+	}
+
+	it("listens on loopback and answers JSON-RPC", async () => {
+		expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+		const res = await post(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }));
+		expect(res.status).toBe(200);
+		expect(JSON.parse(res.body)).toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+	});
+
+	it("requires the bearer token", async () => {
+		const res = await post("{}", { Authorization: "Bearer wrong" });
+		expect(res.status).toBe(401);
+	});
+
+	it("rejects requests from browsers", async () => {
+		const res = await post("{}", { Origin: "https://example.com" });
+		expect(res.status).toBe(403);
+	});
+
+	it("accepts notifications with 202", async () => {
+		const res = await post(JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }));
+		expect(res.status).toBe(202);
+	});
+
+	it("reports parse errors", async () => {
+		const res = await post("{nope");
+		expect(res.status).toBe(400);
+		expect(JSON.parse(res.body).error.code).toBe(-32700);
+	});
+
+	it("builds a claude --mcp-config with the url and token", () => {
+		const config = JSON.parse(server.claudeConfig()!);
+		expect(config.mcpServers.obsidian).toEqual({
+			type: "http",
+			url: server.url,
+			headers: { Authorization: `Bearer ${server.token}` },
+		});
+	});
+
+	it("writes the config to a file only the user can read", () => {
+		const file = server.claudeConfigFile()!;
+		expect(JSON.parse(fs.readFileSync(file, "utf8"))).toEqual(JSON.parse(server.claudeConfig()!));
+		if (process.platform !== "win32") expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+		server.stop();
+		expect(fs.existsSync(file)).toBe(false);
+	});
+
+	it("has no config once stopped", () => {
+		server.stop();
+		expect(server.claudeConfig()).toBeNull();
+		expect(server.claudeConfigFile()).toBeNull();
+	});
+});
@@ -0,0 +1,86 @@
+import { findHeadingSection, findBlock, trimTrailingBlankLines } from "../note-sections";
+
+function pos(start: number, end = start) {
+	return {
+		start: { line: start, col: 0, offset: 0 },
+		end: { line: end, col: 0, offset: 0 },
+	};
+}
+
+function heading(line: number, level: number) {
+	return { heading: `H${line}`, level, position: pos(line) };
+}
+
+describe("findHeadingSection", () => {
+	// 0: # A, 3: ## B, 6: ### C, 9: ## D, 12: # E ... last line 15
+	const headings = [heading(0, 1), heading(3, 2), heading(6, 3), heading(9, 2), heading(12, 1)];
+
+	it("ends before the next heading of the same level", () => {
+		expect(findHeadingSection(headings, 4, 15)).toEqual({ start: 3, end: 8 });
+	});
+
+	it("includes deeper subsections", () => {
+		expect(findHeadingSection(headings, 1, 15)).toEqual({ start: 0, end: 11 });
+	});
+
+	it("uses the innermost heading above the cursor", () => {
+		expect(findHeadingSection(headings, 7, 15)).toEqual({ start: 6, end: 8 });
+	});
+
+	it("runs to the end of the note for the last section", () => {
+		expect(findHeadingSection(headings, 14, 15)).toEqual({ start: 12, end: 15 });
+	});
+
+	it("includes the heading line itself", () => {
+		expect(findHeadingSection(headings, 9, 15)).toEqual({ start: 9, end: 11 });
+	});
+
+	it("returns null above the first heading or without headings", () => {
+		expect(findHeadingSection([heading(2, 1)], 0, 5)).toBeNull();
+		expect(findHeadingSection(undefined, 0, 5)).toBeNull();
+	});
+});
+
+describe("findBlock", () => {
+	const cache = {
+		sections: [
+			{ type: "yaml", position: pos(0, 2) },
+			{ type: "paragraph", id: "para", position: pos(4, 5) },
+			{ type: "list", position: pos(7, 10) },
+		],
+		listItems: [
+			{ parent: -7, position: pos(7) },
+			{ parent: -7, id: "item", position: pos(8, 9) },
+			{ parent: 8, position: pos(10) },
+		],
+	};
+
+	it("returns the paragraph under the cursor with its block id", () => {
+		expect(findBlock(cache, 5)).toEqual({ start: 4, end: 5, id: "para" });
+	});
+
+	it("returns a list item that has a block id on its own", () => {
+		expect(findBlock(cache, 9)).toEqual({ start: 8, end: 9, id: "item" });
+	});
+
+	it("returns the whole list for items without an id", () => {
+		expect(findBlock(cache, 10)).toEqual({ start: 7, end: 10, id: undefined });
+	});
+
+	it("ignores frontmatter and blank lines between sections", () => {
+		expect(findBlock(cache, 1)).toBeNull();
+		expect(findBlock(cache, 3)).toBeNull();
+		expect(findBlock(null, 3)).toBeNull();
+	});
+});
+
+describe("trimTrailingBlankLines", () => {
+	it("drops blank lines at the end of the range", () => {
+		const lines = ["# A", "text", "", "  "];
+		expect(trimTrailingBlankLines({ start: 0, end: 3 }, (l) => lines[l])).toEqual({ start: 0, end: 1 });
+	});
+
+	it("never moves the end before the start", () => {
+		expect(trimTrailingBlankLines({ start: 2, end: 4 }, () => "")).toEqual({ start: 2, end: 2 });
+	});
+});
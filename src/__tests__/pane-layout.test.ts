@@ -0,0 +1,86 @@
+import {
+	LayoutNode,
+	listPanes,
+	mapLayout,
+	splitPane,
+	removePane,
+	clampRatio,
+	parseLayout,
+	paneInDirection,
+	PaneRect,
+} from "../pane-layout";
+
+const pane = (name: string): LayoutNode<string> => ({ type: "pane", pane: name });
+
+describe("splitPane / removePane", () => {
+	it("splits a pane into two halves with the new pane second", () => {
+		const root = splitPane(pane("a"), "a", "vertical", "b");
+		expect(root).toEqual({ type: "split", direction: "vertical", ratio: 0.5, children: [pane("a"), pane("b")] });
+	});
+
+	it("splits nested panes in place", () => {
+		let root = splitPane(pane("a"), "a", "vertical", "b");
+		root = splitPane(root, "b", "horizontal", "c");
+		expect(listPanes(root)).toEqual(["a", "b", "c"]);
+		expect(root.type === "split" && root.children[1].type).toBe("split");
+	});
+
+	it("lets the sibling take the place of a removed pane", () => {
+		let root = splitPane(pane("a"), "a", "vertical", "b");
+		root = splitPane(root, "b", "horizontal", "c");
+		const afterRemove = removePane(root, "b")!;
+		expect(afterRemove).toEqual({ type: "split", direction: "vertical", ratio: 0.5, children: [pane("a"), pane("c")] });
+		expect(removePane(removePane(afterRemove, "a")!, "c")).toBeNull();
+	});
+});
+
+describe("mapLayout", () => {
+	it("keeps the shape while converting panes", () => {
+		const root = splitPane(pane("a"), "a", "horizontal", "b");
+		expect(listPanes(mapLayout(root, (p) => p.toUpperCase()))).toEqual(["A", "B"]);
+	});
+});
+
+describe("parseLayout", () => {
+	const asString = (raw: unknown) => String(raw);
+
+	it("accepts a saved split layout", () => {
+		const saved = { type: "split", direction: "horizontal", ratio: 0.3, children: [{ type: "pane", pane: "a" }, { type: "pane", pane: "b" }] };
+		expect(parseLayout(saved, asString)).toEqual(saved);
+	});
+
+	it("rejects malformed layouts", () => {
+		expect(parseLayout(undefined, asString)).toBeNull();
+		expect(parseLayout({ type: "split", direction: "diagonal", children: [] }, asString)).toBeNull();
+		expect(parseLayout({ type: "split", direction: "vertical", children: [{ type: "pane" }] }, asString)).toBeNull();
+	});
+
+	it("clamps ratios so no pane collapses", () => {
+		const saved = { type: "split", direction: "vertical", ratio: 1.5, children: [{ type: "pane" }, { type: "pane" }] };
+		expect((parseLayout(saved, asString) as any).ratio).toBe(clampRatio(1.5));
+		expect(clampRatio(0)).toBeGreaterThan(0);
+	});
+});
+
+describe("paneInDirection", () => {
+	// a | b
+	// --+--
+	//   c (spans the full width)
+	const rects = new Map<string, PaneRect>([
+		["a", { left: 0, top: 0, right: 100, bottom: 100 }],
+		["b", { left: 104, top: 0, right: 200, bottom: 100 }],
+		["c", { left: 0, top: 104, right: 200, bottom: 200 }],
+	]);
+
+	it("finds the neighbour on each side", () => {
+		expect(paneInDirection(rects, "a", "right")).toBe("b");
+		expect(paneInDirection(rects, "b", "left")).toBe("a");
+		expect(paneInDirection(rects, "a", "down")).toBe("c");
+		expect(paneInDirection(rects, "c", "up")).toBe("a");
+	});
+
+	it("returns null at the edge", () => {
+		expect(paneInDirection(rects, "a", "left")).toBeNull();
+		expect(paneInDirection(rects, "c", "down")).toBeNull();
+	});
+});
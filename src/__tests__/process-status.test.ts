@@ -0,0 +1,85 @@
+import { ActivityTracker, formatProcessStatus, ProcessStatus, shouldRestart, restartDelay } from "../process-status";
+
+describe("formatProcessStatus", () => {
+	it("labels live states", () => {
+		expect(formatProcessStatus({ state: "starting" })).toBe("starting");
+		expect(formatProcessStatus({ state: "running" })).toBe("running");
+		expect(formatProcessStatus({ state: "idle" })).toBe("waiting for input");
+	});
+
+	it("includes the exit code or signal", () => {
+		expect(formatProcessStatus({ state: "exited", exitCode: 0 })).toBe("exited (0)");
+		expect(formatProcessStatus({ state: "exited", exitCode: 1 })).toBe("exited (1)");
+		expect(formatProcessStatus({ state: "exited", exitCode: 0, signal: 9 })).toBe("exited (signal 9)");
+	});
+});
+
+describe("shouldRestart", () => {
+	const ok: ProcessStatus = { state: "exited", exitCode: 0 };
+	const failed: ProcessStatus = { state: "exited", exitCode: 1 };
+	const killed: ProcessStatus = { state: "exited", exitCode: 0, signal: 15 };
+
+	it("never restarts a running process", () => {
+		expect(shouldRestart("always", { state: "running" })).toBe(false);
+	});
+
+	it("applies each policy", () => {
+		expect([ok, failed, killed].map((s) => shouldRestart("never", s))).toEqual([false, false, false]);
+		expect([ok, failed, killed].map((s) => shouldRestart("on-failure", s))).toEqual([false, true, true]);
+		expect([ok, failed, killed].map((s) => shouldRestart("always", s))).toEqual([true, true, true]);
+	});
+});
+
+describe("restartDelay", () => {
+	it("doubles from one second and caps at thirty", () => {
+		expect([0, 1, 2, 3, 4, 5, 10].map(restartDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+	});
+});
+
+describe("ActivityTracker", () => {
+	let changes: ProcessStatus[];
+	let tracker: ActivityTracker;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		changes = [];
+		tracker = new ActivityTracker((s) => changes.push(s), 1000);
+	});
+
+	afterEach(() => {
+		tracker.dispose();
+		vi.useRealTimers();
+	});
+
+	it("starts in the starting state", () => {
+		expect(tracker.status.state).toBe("starting");
+	});
+
+	it("goes running on output and idle after a quiet period", () => {
+		tracker.activity();
+		expect(tracker.status.state).toBe("running");
+		vi.advanceTimersByTime(999);
+		expect(tracker.status.state).toBe("running");
+		vi.advanceTimersByTime(1);
+		expect(tracker.status.state).toBe("idle");
+	});
+
+	it("restarts the idle timer on each chunk and only reports changes", () => {
+		tracker.activity();
+		vi.advanceTimersByTime(800);
+		tracker.activity();
+		vi.advanceTimersByTime(800);
+		expect(tracker.status.state).toBe("running");
+		vi.advanceTimersByTime(200);
+		expect(changes.map((c) => c.state)).toEqual(["running", "idle"]);
+	});
+
+	it("records the exit and ignores later output", () => {
+		tracker.activity();
+		tracker.exit(2);
+		vi.advanceTimersByTime(5000);
+		tracker.activity();
+		expect(tracker.status).toEqual({ state: "exited", exitCode: 2, signal: undefined });
+		expect(changes.map((c) => c.state)).toEqual(["running", "exited"]);
+	});
+});
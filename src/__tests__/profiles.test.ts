@@ -0,0 +1,146 @@
+import {
+	createDefaultProfiles,
+	migrateLegacySettings,
+	normalizeProfile,
+	getProfile,
+	findClaudeProfile,
+	findShellProfile,
+	resolveProfileCwd,
+	parseEnv,
+	formatEnv,
+} from "../profiles";
+import { DEFAULT_SETTINGS, ClaudeTerminalSettings } from "../constants";
+
+function settingsWith(overrides: Partial<ClaudeTerminalSettings>): ClaudeTerminalSettings {
+	return { ...DEFAULT_SETTINGS, profiles: createDefaultProfiles(), ...overrides };
+}
+
+describe("createDefaultProfiles", () => {
+	it("returns fresh objects on every call", () => {
+		const a = createDefaultProfiles();
+		const b = createDefaultProfiles();
+		expect(a).toEqual(b);
+		expect(a[0]).not.toBe(b[0]);
+	});
+});
+
+describe("migrateLegacySettings", () => {
+	it("returns default profiles for a fresh install", () => {
+		expect(migrateLegacySettings(null).profiles).toEqual(createDefaultProfiles());
+	});
+
+	it("moves claudeFlags into the Claude profile args", () => {
+		const result = migrateLegacySettings({ claudeFlags: "--model opus", autoLaunch: true, fontSize: 16 });
+		expect(result.profiles![0].args).toBe("--model opus");
+		expect(result.defaultProfileId).toBe("claude");
+		expect(result.fontSize).toBe(16);
+		expect(result).not.toHaveProperty("claudeFlags");
+		expect(result).not.toHaveProperty("autoLaunch");
+	});
+
+	it("makes the shell the default when autoLaunch was off", () => {
+		expect(migrateLegacySettings({ autoLaunch: false }).defaultProfileId).toBe("shell");
+	});
+
+	it("leaves settings that already have profiles untouched", () => {
+		const data = { profiles: [], defaultProfileId: "x" };
+		expect(migrateLegacySettings(data)).toBe(data);
+	});
+});
+
+describe("normalizeProfile", () => {
+	it("fills in fields missing from older saved profiles", () => {
+		const saved = { id: "old", name: "Old", command: "claude" };
+		expect(normalizeProfile(saved)).toMatchObject({ id: "old", name: "Old", command: "claude", restart: "never", notifications: "desktop", env: {} });
+	});
+
+	it("keeps saved values", () => {
+		const profile = { ...createDefaultProfiles()[0], restart: "always" as const };
+		expect(normalizeProfile(profile)).toEqual(profile);
+	});
+});
+
+describe("getProfile", () => {
+	it("finds a profile by id", () => {
+		expect(getProfile(settingsWith({}), "shell").name).toBe("Shell");
+	});
+
+	it("falls back to the default profile for unknown ids", () => {
+		expect(getProfile(settingsWith({ defaultProfileId: "shell" }), "gone").id).toBe("shell");
+	});
+
+	it("falls back to the first profile when the default is missing", () => {
+		expect(getProfile(settingsWith({ defaultProfileId: "gone" })).id).toBe("claude");
+	});
+
+	it("returns the built-in Claude profile when the list is empty", () => {
+		expect(getProfile(settingsWith({ profiles: [] })).command).toBe("claude");
+	});
+});
+
+describe("findClaudeProfile", () => {
+	it("prefers the default profile when it runs claude", () => {
+		const profiles = createDefaultProfiles();
+		profiles.push({ ...profiles[0], id: "opus", command: "/usr/local/bin/claude" });
+		expect(findClaudeProfile(settingsWith({ profiles, defaultProfileId: "opus" }))!.id).toBe("opus");
+	});
+
+	it("falls back to the first claude profile", () => {
+		expect(findClaudeProfile(settingsWith({ defaultProfileId: "shell" }))!.id).toBe("claude");
+	});
+
+	it("returns null when no profile runs claude", () => {
+		const profiles = createDefaultProfiles().slice(1);
+		expect(findClaudeProfile(settingsWith({ profiles }))).toBeNull();
+	});
+});
+
+describe("findShellProfile", () => {
+	it("finds the profile with a blank command", () => {
+		expect(findShellProfile(settingsWith({}))!.id).toBe("shell");
+	});
+
+	it("returns null when every profile runs a program", () => {
+		expect(findShellProfile(settingsWith({ profiles: createDefaultProfiles().slice(0, 1) }))).toBeNull();
+	});
+});
+
+describe("resolveProfileCwd", () => {
+	it("uses the vault root when blank", () => {
+		expect(resolveProfileCwd("  ", "/vault")).toBe("/vault");
+	});
+
+	it("resolves relative paths from the vault root", () => {
+		expect(resolveProfileCwd("projects/alpha", "/vault")).toBe("/vault/projects/alpha");
+	});
+
+	it("keeps absolute paths", () => {
+		expect(resolveProfileCwd("/tmp/work", "/vault")).toBe("/tmp/work");
+	});
+
+	it("expands ~ to HOME", () => {
+		const original = process.env.HOME;
+		process.env.HOME = "/home/me";
+		expect(resolveProfileCwd("~/code", "/vault")).toBe("/home/me/code");
+		process.env.HOME = original;
+	});
+});
+
+describe("parseEnv / formatEnv", () => {
+	it("parses KEY=value lines", () => {
+		expect(parseEnv("A=1\nB = two words\n")).toEqual({ A: "1", B: "two words" });
+	});
+
+	it("keeps = signs inside values", () => {
+		expect(parseEnv("OPTS=--a=b")).toEqual({ OPTS: "--a=b" });
+	});
+
+	it("skips blank lines, comments and lines without a key", () => {
+		expect(parseEnv("\n# comment\n=nokey\njunk\nA=1")).toEqual({ A: "1" });
+	});
+
+	it("round-trips through formatEnv", () => {
+		const env = { A: "1", B: "2" };
+		expect(parseEnv(formatEnv(env))).toEqual(env);
+	});
+});
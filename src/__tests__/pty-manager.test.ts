@@ -4,6 +4,8 @@ import {
 	clearPathCache,
 	buildFallbackPath,
 	detectShell,
+	updateBracketedPasteMode,
+	formatPaste,
 } from "../pty-manager";
 
 describe("detectShell", () => {
@@ -139,3 +141,45 @@ describe("resolveUserPath", () => {
 		expect(second).toBe("/second/path");
 	});
 });
+
+describe("updateBracketedPasteMode", () => {
+	it("turns on when the program enables bracketed paste", () => {
+		expect(updateBracketedPasteMode(false, "prompt\x1b[?2004h")).toBe(true);
+	});
+
+	it("turns off when the program disables it", () => {
+		expect(updateBracketedPasteMode(true, "\x1b[?2004lbye")).toBe(false);
+	});
+
+	it("keeps the current mode when the chunk has no mode change", () => {
+		expect(updateBracketedPasteMode(true, "output")).toBe(true);
+		expect(updateBracketedPasteMode(false, "output")).toBe(false);
+	});
+
+	it("uses the last sequence in the chunk", () => {
+		expect(updateBracketedPasteMode(false, "\x1b[?2004h\x1b[?2004l")).toBe(false);
+		expect(updateBracketedPasteMode(false, "\x1b[?2004l\x1b[?2004h")).toBe(true);
+	});
+});
+
+describe("formatPaste", () => {
+	it("wraps text in paste markers when bracketed paste is on", () => {
+		expect(formatPaste("hello", true)).toBe("\x1b[200~hello\x1b[201~");
+	});
+
+	it("converts newlines to CR inside a bracketed paste", () => {
+		expect(formatPaste("a\nb\r\nc", true)).toBe("\x1b[200~a\rb\rc\x1b[201~");
+	});
+
+	it("removes paste markers from the payload", () => {
+		expect(formatPaste("x\x1b[201~\ny", true)).toBe("\x1b[200~x\ry\x1b[201~");
+	});
+
+	it("flattens newlines to spaces when bracketed paste is off", () => {
+		expect(formatPaste("From a.md:\n\nline 1\nline 2 ", false)).toBe("From a.md: line 1 line 2 ");
+	});
+
+	it("sends single-line text unchanged when bracketed paste is off", () => {
+		expect(formatPaste("Read @a.md ", false)).toBe("Read @a.md ");
+	});
+});
@@ -0,0 +1,92 @@
+import { Terminal } from "@xterm/xterm";
+import { SerializeAddon } from "@xterm/addon-serialize";
+import {
+	MAX_RESTORED_LINES,
+	scrollbackToRestore,
+	scrollbackToSave,
+	formatDivider,
+	replayScrollback,
+} from "../scrollback-restore";
+
+const SAVED = "\x1b[32m$ ls\x1b[0m\r\nnotes.md\r\n";
+
+/** Mock terminal that records what's written to it */
+function recordingTerminal(cols = 40) {
+	const terminal = new Terminal();
+	(terminal as { cols: number }).cols = cols;
+	const written: string[] = [];
+	vi.spyOn(terminal, "write").mockImplementation((data: string | Uint8Array) => void written.push(String(data)));
+	return { terminal, written };
+}
+
+describe("scrollbackToSave", () => {
+	it("serializes the buffer, capped to the restored line count", () => {
+		const addon = new SerializeAddon();
+		const serialize = vi.spyOn(addon, "serialize").mockReturnValue(SAVED);
+		expect(scrollbackToSave(addon, true)).toBe(SAVED);
+		expect(serialize).toHaveBeenCalledWith({ scrollback: MAX_RESTORED_LINES });
+	});
+
+	it("saves nothing when restoring is off", () => {
+		const addon = new SerializeAddon();
+		const serialize = vi.spyOn(addon, "serialize").mockReturnValue(SAVED);
+		expect(scrollbackToSave(addon, false)).toBeUndefined();
+		expect(serialize).not.toHaveBeenCalled();
+	});
+
+	it("keeps saved scrollback that hasn't been replayed yet", () => {
+		const addon = new SerializeAddon();
+		const serialize = vi.spyOn(addon, "serialize").mockReturnValue("");
+		expect(scrollbackToSave(addon, true, SAVED)).toBe(SAVED);
+		expect(scrollbackToSave(null, true, scrollbackToRestore(SAVED, true))).toBe(SAVED);
+		expect(scrollbackToSave(addon, false, SAVED)).toBeUndefined();
+		expect(serialize).not.toHaveBeenCalled();
+	});
+
+	it("saves nothing for an empty buffer, a missing addon or a failed serialize", () => {
+		expect(scrollbackToSave(new SerializeAddon(), true)).toBeUndefined();
+		expect(scrollbackToSave(null, true)).toBeUndefined();
+		const addon = new SerializeAddon();
+		vi.spyOn(addon, "serialize").mockImplementation(() => {
+			throw new Error("disposed");
+		});
+		expect(scrollbackToSave(addon, true)).toBeUndefined();
+	});
+});
+
+describe("scrollbackToRestore", () => {
+	it("restores saved scrollback only when the setting is on", () => {
+		expect(scrollbackToRestore(SAVED, true)).toBe(SAVED);
+		expect(scrollbackToRestore(SAVED, false)).toBeNull();
+		expect(scrollbackToRestore(undefined, true)).toBeNull();
+		expect(scrollbackToRestore("", true)).toBeNull();
+	});
+});
+
+describe("replayScrollback", () => {
+	it("writes the saved buffer above a session restored divider", () => {
+		const { terminal, written } = recordingTerminal(40);
+		expect(replayScrollback(terminal, SAVED)).toBe(true);
+		expect(written).toEqual([SAVED, formatDivider("session restored", 40)]);
+	});
+
+	it("writes nothing without saved scrollback", () => {
+		const { terminal, written } = recordingTerminal();
+		expect(replayScrollback(terminal, scrollbackToRestore(SAVED, false))).toBe(false);
+		expect(written).toEqual([]);
+	});
+});
+
+describe("formatDivider", () => {
+	it("centers the label in a full-width dim rule", () => {
+		const divider = formatDivider("restarted", 21);
+		const rule = divider.replace(/\x1b\[[0-9;]*m|\r\n/g, "");
+		expect(rule).toBe("───── restarted ─────");
+		expect([...rule].length).toBe(21);
+		expect(divider.startsWith("\x1b[0m\r\n\x1b[2m")).toBe(true);
+	});
+
+	it("keeps the label when the terminal is narrower than it", () => {
+		expect(formatDivider("session restored", 5).replace(/\x1b\[[0-9;]*m|\r\n/g, "")).toBe(" session restored ");
+	});
+});
@@ -0,0 +1,196 @@
+import { Events, TFile } from "obsidian";
+import { SessionChangeTracker, changeKind } from "../session-changes";
+
+const makeFile = (path: string) => new (TFile as any)(path) as TFile;
+
+/** In-memory vault that fires the same events as Obsidian's */
+class FakeVault extends Events {
+	files = new Map<string, { file: TFile; content: string }>();
+
+	constructor(initial: Record<string, string>) {
+		super();
+		for (const [path, content] of Object.entries(initial)) this.files.set(path, { file: makeFile(path), content });
+	}
+
+	getFiles() { return [...this.files.values()].map((f) => f.file); }
+	getAbstractFileByPath(path: string) { return this.files.get(path)?.file ?? null; }
+	async read(file: TFile) { return this.files.get(file.path)!.content; }
+	async cachedRead(file: TFile) { return this.read(file); }
+
+	async modify(file: TFile, content: string) {
+		this.files.get(file.path)!.content = content;
+		this.trigger("modify", file);
+	}
+
+	async create(path: string, content: string) {
+		const file = makeFile(path);
+		this.files.set(path, { file, content });
+		this.trigger("create", file);
+		return file;
+	}
+
+	async delete(file: TFile) {
+		this.files.delete(file.path);
+		this.trigger("delete", file);
+	}
+
+	async rename(file: TFile, newPath: string) {
+		const entry = this.files.get(file.path)!;
+		const oldPath = file.path;
+		this.files.delete(oldPath);
+		file.path = newPath;
+		this.files.set(newPath, entry);
+		this.trigger("rename", file, oldPath);
+	}
+
+	content(path: string) { return this.files.get(path)?.content; }
+}
+
+/** Let async event handlers finish */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function setup(initial: Record<string, string>) {
+	const vault = new FakeVault(initial);
+	const tracker = new SessionChangeTracker(vault as any);
+	tracker.begin("session");
+	// Let the baseline capture finish
+	await settle();
+	return { vault, tracker, file: (path: string) => vault.getAbstractFileByPath(path)! };
+}
+
+describe("SessionChangeTracker", () => {
+	it("records the original content of a modified file", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "before" });
+		await vault.modify(file("a.md"), "after");
+		await vault.modify(file("a.md"), "after again");
+		expect(tracker.list()).toEqual([{ path: "a.md", original: "before", deleted: false }]);
+	});
+
+	it("drops a change once the file is edited back to its original", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "before" });
+		await vault.modify(file("a.md"), "after");
+		await vault.modify(file("a.md"), "before");
+		await settle();
+		expect(tracker.list()).toEqual([]);
+	});
+
+	it("classifies created, deleted and renamed files", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "a", "b.md": "b" });
+		await vault.create("new.md", "n");
+		await vault.delete(file("a.md"));
+		await vault.rename(file("b.md"), "moved/b.md");
+
+		const byPath = Object.fromEntries(tracker.list().map((c) => [c.path, c]));
+		expect(changeKind(byPath["new.md"])).toBe("created");
+		expect(changeKind(byPath["a.md"])).toBe("deleted");
+		expect(byPath["a.md"].original).toBe("a");
+		expect(byPath["moved/b.md"]).toMatchObject({ originalPath: "b.md", original: "b" });
+	});
+
+	it("forgets files created and deleted within the session", async () => {
+		const { vault, tracker } = await setup({});
+		const created = await vault.create("tmp.md", "x");
+		await vault.delete(created);
+		expect(tracker.list()).toEqual([]);
+	});
+
+	it("reverts modifications, deletions, creations and renames", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "a", "b.md": "b", "c.md": "c" });
+		await vault.modify(file("a.md"), "changed");
+		await vault.delete(file("b.md"));
+		await vault.create("new.md", "n");
+		await vault.rename(file("c.md"), "renamed.md");
+
+		for (const change of tracker.list()) await tracker.revert(change.path);
+
+		expect(tracker.list()).toEqual([]);
+		expect(vault.content("a.md")).toBe("a");
+		expect(vault.content("b.md")).toBe("b");
+		expect(vault.content("new.md")).toBeUndefined();
+		expect(vault.content("c.md")).toBe("c");
+		expect(vault.content("renamed.md")).toBeUndefined();
+	});
+
+	it("keeps changes after tracking ends until they are accepted", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "a", "b.md": "b" });
+		await vault.modify(file("a.md"), "x");
+		await vault.modify(file("b.md"), "y");
+		tracker.end("session");
+		await vault.modify(file("a.md"), "z");
+		expect(tracker.isTracking).toBe(false);
+		expect(tracker.list()).toHaveLength(2);
+
+		tracker.accept("a.md");
+		expect(tracker.list().map((c) => c.path)).toEqual(["b.md"]);
+		tracker.accept();
+		expect(tracker.list()).toEqual([]);
+	});
+
+	it("reports the content before each change", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "one", "b.md": "b" });
+		const events: [string, string | null | undefined][] = [];
+		tracker.on("file-changed", (path: string, before: string | null | undefined) => events.push([path, before]));
+
+		await vault.modify(file("a.md"), "two");
+		await settle();
+		await vault.modify(file("a.md"), "three");
+		await vault.create("c.md", "c");
+		await vault.rename(file("b.md"), "d.md");
+
+		expect(events).toEqual([
+			["a.md", "one"],
+			["a.md", "two"],
+			["c.md", null],
+			["b.md", "b"],
+			["d.md", null],
+		]);
+	});
+
+	it("doesn't record its own writes", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "one\ntwo" });
+		await vault.modify(file("a.md"), "ONE\ntwo");
+		await tracker.write("a.md", "one\ntwo");
+		expect(tracker.list()).toEqual([]);
+	});
+
+	it("keeps the baseline between sessions, reading only files modified since", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "a", "b.md": "b" });
+		tracker.end("session");
+		const reads: string[] = [];
+		const read = vault.cachedRead.bind(vault);
+		vault.cachedRead = async (f: TFile) => (reads.push(f.path), read(f));
+
+		// Edited while nothing was tracking
+		vault.files.get("b.md")!.content = "b2";
+		file("b.md").stat.mtime = 1;
+		tracker.begin("session");
+		await settle();
+		expect(reads).toEqual(["b.md"]);
+
+		await vault.modify(file("b.md"), "b3");
+		expect(tracker.get("b.md")?.original).toBe("b2");
+	});
+
+	it("doesn't use the kept baseline before checking it", async () => {
+		const { vault, tracker, file } = await setup({ "a.md": "a" });
+		tracker.end("session");
+
+		// Edited while nothing was tracking, then changed before the baseline is checked
+		vault.files.get("a.md")!.content = "a2";
+		file("a.md").stat.mtime = 1;
+		tracker.begin("session");
+		await vault.modify(file("a.md"), "a3");
+		expect(tracker.get("a.md")?.original).toBeUndefined();
+	});
+
+	it("reads no more text than the baseline budget", async () => {
+		const vault = new FakeVault({ "a.md": "aaaa", "b.md": "bbbb" });
+		vault.getFiles().forEach((f) => (f.stat.size = 4));
+		const tracker = new SessionChangeTracker(vault as any, () => 6);
+		tracker.begin("session");
+		await settle();
+		await vault.modify(vault.getAbstractFileByPath("a.md")!, "x");
+		await vault.modify(vault.getAbstractFileByPath("b.md")!, "y");
+		expect(tracker.list().map((change) => change.original)).toEqual(["aaaa", undefined]);
+	});
+});
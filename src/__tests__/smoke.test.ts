@@ -7,16 +7,21 @@ describe("smoke", () => {
 
 	it("exports DEFAULT_SETTINGS with expected shape", () => {
 		expect(DEFAULT_SETTINGS).toMatchObject({
-			claudeFlags: "",
+			defaultProfileId: "claude",
 			shellPath: "",
 			fontSize: 14,
-			autoLaunch: true,
 			focusTerminalOnContext: true,
+			restoreScrollback: true,
 			theme: {
-				background: "",
-				foreground: "",
-				cursor: "",
+				dark: { background: "", foreground: "", cursor: "" },
+				light: { background: "", foreground: "", cursor: "" },
 			},
 		});
 	});
+
+	it("ships Claude and shell profiles by default", () => {
+		expect(DEFAULT_SETTINGS.profiles.map((p) => p.id)).toEqual(["claude", "shell"]);
+		expect(DEFAULT_SETTINGS.profiles[0].command).toBe("claude");
+		expect(DEFAULT_SETTINGS.profiles[1].command).toBe("");
+	});
 });
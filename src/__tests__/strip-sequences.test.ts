@@ -38,9 +38,9 @@ describe("stripUnsupportedSequences", () => {
 		expect(stripUnsupportedSequences("\x1b[?2004l")).toBe("");
 	});
 
-	it("strips ConEmu progress sequences", () => {
-		expect(stripUnsupportedSequences("\x1b]9;4;0;\x07")).toBe("");
-		expect(stripUnsupportedSequences("\x1b]9;4;0;")).toBe("");
+	it("leaves OSC 9 sequences for the terminal to parse", () => {
+		expect(stripUnsupportedSequences("\x1b]9;4;0;\x07")).toBe("\x1b]9;4;0;\x07");
+		expect(stripUnsupportedSequences("\x1b]9;Build done\x1b\\")).toBe("\x1b]9;Build done\x1b\\");
 	});
 
 	it("preserves text around stripped sequences", () => {
@@ -0,0 +1,58 @@
+import { renderTemplate } from "../templates";
+import { DEFAULT_SETTINGS } from "../constants";
+
+describe("renderTemplate", () => {
+	it("substitutes path, title and date", () => {
+		const out = renderTemplate("{{title}} ({{path}}) {{date}}", {
+			path: "a/Plan.md",
+			title: "Plan",
+			date: new Date(2025, 2, 4),
+		});
+		expect(out).toBe("Plan (a/Plan.md) 2025-03-04");
+	});
+
+	it("renders paths as @mentions", () => {
+		expect(renderTemplate("Read {{paths}}", { paths: ["a.md", "b.md"] })).toBe("Read @a.md @b.md");
+	});
+
+	it("falls back to the single path for {{paths}}", () => {
+		expect(renderTemplate("{{paths}}", { path: "a.md" })).toBe("@a.md");
+	});
+
+	it("reads frontmatter keys and joins lists", () => {
+		const ctx = { frontmatter: { status: "active", tags: ["x", "y"] } };
+		expect(renderTemplate("{{frontmatter.status}} {{frontmatter.tags}}", ctx)).toBe("active x, y");
+	});
+
+	it("renders unknown variables and missing values as empty", () => {
+		expect(renderTemplate("[{{nope}}][{{frontmatter.missing}}][{{selection}}]", {})).toBe("[][][]");
+	});
+
+	it("tolerates spaces inside braces", () => {
+		expect(renderTemplate("{{ path }}", { path: "a.md" })).toBe("a.md");
+	});
+
+	it("keeps sections only when their variable is set", () => {
+		const template = "From {{path}}{{#startLine}} (lines {{startLine}}-{{endLine}}){{/startLine}}:";
+		expect(renderTemplate(template, { path: "a.md", startLine: 3, endLine: 9 })).toBe("From a.md (lines 3-9):");
+		expect(renderTemplate(template, { path: "a.md" })).toBe("From a.md:");
+	});
+});
+
+describe("default templates", () => {
+	const { templates } = DEFAULT_SETTINGS;
+
+	it("match the original add-note messages", () => {
+		expect(renderTemplate(templates.addNote, { path: "notes/todo.md" })).toBe("Read @notes/todo.md ");
+		expect(renderTemplate(templates.addNote, { path: "big.md", startLine: 1, endLine: 100 })).toBe("Read @big.md lines 1-100 ");
+		expect(renderTemplate(templates.addNotes, { paths: ["a.md", "b.md"] })).toBe("Read these files: @a.md @b.md ");
+	});
+
+	it("match the original send-selection message", () => {
+		expect(renderTemplate(templates.sendSelection, {
+			path: "src/main.ts", selection: "const x = 1;", startLine: 10, endLine: 15,
+		})).toBe("From src/main.ts (lines 10-15):\n\nconst x = 1; ");
+		expect(renderTemplate(templates.sendSelection, { path: "src/main.ts", selection: "x" }))
+			.toBe("From src/main.ts:\n\nx ");
+	});
+});
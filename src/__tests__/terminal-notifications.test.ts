@@ -0,0 +1,35 @@
+import { parseOsc9, parseOsc777 } from "../terminal-notifications";
+
+describe("parseOsc9", () => {
+	it("reads the message", () => {
+		expect(parseOsc9("\n\nClaude needs your permission to use Bash")).toEqual({
+			body: "Claude needs your permission to use Bash",
+		});
+	});
+
+	it("ignores ConEmu subcommands such as progress", () => {
+		expect(parseOsc9("4;1;50")).toBeNull();
+		expect(parseOsc9("4;0;")).toBeNull();
+		expect(parseOsc9("9;C:\\Users")).toBeNull();
+	});
+
+	it("ignores empty messages", () => {
+		expect(parseOsc9("  ")).toBeNull();
+	});
+});
+
+describe("parseOsc777", () => {
+	it("reads the title and body", () => {
+		expect(parseOsc777("notify;Build;Finished; 0 errors")).toEqual({ title: "Build", body: "Finished; 0 errors" });
+	});
+
+	it("uses a lone title as the body", () => {
+		expect(parseOsc777("notify;Done")).toEqual({ body: "Done" });
+		expect(parseOsc777("notify;;Done")).toEqual({ body: "Done" });
+	});
+
+	it("ignores other 777 commands", () => {
+		expect(parseOsc777("preexec")).toBeNull();
+		expect(parseOsc777("notify;;")).toBeNull();
+	});
+});
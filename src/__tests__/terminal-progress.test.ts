@@ -0,0 +1,44 @@
+import { updateProgress, formatProgress, NO_PROGRESS } from "../terminal-progress";
+
+describe("updateProgress", () => {
+	it("reads each state", () => {
+		expect(updateProgress(NO_PROGRESS, "4;1;45")).toEqual({ state: "normal", percent: 45 });
+		expect(updateProgress(NO_PROGRESS, "4;2;80")).toEqual({ state: "error", percent: 80 });
+		expect(updateProgress(NO_PROGRESS, "4;3")).toEqual({ state: "indeterminate" });
+		expect(updateProgress(NO_PROGRESS, "4;4;10")).toEqual({ state: "paused", percent: 10 });
+	});
+
+	it("clears progress with state 0, with or without the trailing fields", () => {
+		const running = { state: "normal" as const, percent: 50 };
+		expect(updateProgress(running, "4;0;")).toEqual(NO_PROGRESS);
+		expect(updateProgress(running, "4;0")).toEqual(NO_PROGRESS);
+		expect(updateProgress(running, "4")).toEqual(NO_PROGRESS);
+	});
+
+	it("keeps the percentage for error and paused without one", () => {
+		const running = { state: "normal" as const, percent: 60 };
+		expect(updateProgress(running, "4;2")).toEqual({ state: "error", percent: 60 });
+		expect(updateProgress(running, "4;4;")).toEqual({ state: "paused", percent: 60 });
+		expect(updateProgress(NO_PROGRESS, "4;2")).toEqual({ state: "error" });
+	});
+
+	it("clamps the percentage", () => {
+		expect(updateProgress(NO_PROGRESS, "4;1;250")).toEqual({ state: "normal", percent: 100 });
+	});
+
+	it("ignores other OSC 9 payloads", () => {
+		expect(updateProgress(NO_PROGRESS, "Build finished")).toBeNull();
+		expect(updateProgress(NO_PROGRESS, "4;9;10")).toBeNull();
+		expect(updateProgress(NO_PROGRESS, "9;C:\\Users")).toBeNull();
+	});
+});
+
+describe("formatProgress", () => {
+	it("labels each state", () => {
+		expect(formatProgress(NO_PROGRESS)).toBe("");
+		expect(formatProgress({ state: "normal", percent: 45 })).toBe("45%");
+		expect(formatProgress({ state: "indeterminate" })).toBe("working");
+		expect(formatProgress({ state: "error", percent: 80 })).toBe("error 80%");
+		expect(formatProgress({ state: "paused" })).toBe("paused");
+	});
+});
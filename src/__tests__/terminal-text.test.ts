@@ -0,0 +1,90 @@
+import {
+	stripAnsi,
+	joinWrappedLines,
+	tidyTerminalText,
+	formatLocalDateTime,
+	formatExportNote,
+	formatExportSection,
+} from "../terminal-text";
+
+describe("stripAnsi", () => {
+	it("removes SGR color codes", () => {
+		expect(stripAnsi("\x1b[1;32mok\x1b[0m")).toBe("ok");
+	});
+
+	it("removes OSC sequences with BEL or ST terminators", () => {
+		expect(stripAnsi("\x1b]0;title\x07a\x1b]8;;http://x\x1b\\b")).toBe("ab");
+	});
+
+	it("leaves plain text alone", () => {
+		expect(stripAnsi("plain [text]")).toBe("plain [text]");
+	});
+});
+
+describe("joinWrappedLines", () => {
+	it("appends wrapped rows to the previous line", () => {
+		expect(joinWrappedLines([
+			{ text: "hello ", isWrapped: false },
+			{ text: "world", isWrapped: true },
+			{ text: "next", isWrapped: false },
+		])).toEqual(["hello world", "next"]);
+	});
+
+	it("keeps a leading wrapped row as its own line", () => {
+		expect(joinWrappedLines([{ text: "tail", isWrapped: true }])).toEqual(["tail"]);
+	});
+});
+
+describe("tidyTerminalText", () => {
+	it("removes box frames and keeps the inner text", () => {
+		const input = [
+			"╭──────────────╮",
+			"│ Hello there  │",
+			"│   indented   │",
+			"╰──────────────╯",
+		].join("\n");
+		expect(tidyTerminalText(input)).toBe("Hello there\n  indented");
+	});
+
+	it("strips a left border without a matching right border", () => {
+		expect(tidyTerminalText("│ > prompt")).toBe("> prompt");
+	});
+
+	it("leaves fenced code blocks untouched", () => {
+		const input = "```\n│ not a border │\n────\n```";
+		expect(tidyTerminalText(input)).toBe(input);
+	});
+
+	it("preserves indentation of unframed code", () => {
+		expect(tidyTerminalText("def f():\n    return 1")).toBe("def f():\n    return 1");
+	});
+
+	it("collapses blank lines and trims trailing whitespace", () => {
+		expect(tidyTerminalText("\n\na   \n\n\n\nb\n\n")).toBe("a\n\nb");
+	});
+
+	it("strips ANSI before tidying", () => {
+		expect(tidyTerminalText("\x1b[2m│\x1b[0m text \x1b[2m│\x1b[0m")).toBe("text");
+	});
+});
+
+describe("export formatting", () => {
+	const meta = { date: new Date(2025, 0, 2, 3, 4), profile: "Claude", cwd: "/vault/sub" };
+
+	it("formats local date-time for Obsidian properties", () => {
+		expect(formatLocalDateTime(meta.date)).toBe("2025-01-02T03:04");
+	});
+
+	it("puts date, profile and cwd in frontmatter", () => {
+		expect(formatExportNote("body", meta)).toBe(
+			'---\ndate: 2025-01-02T03:04\nprofile: "Claude"\ncwd: "/vault/sub"\n---\n\nbody\n',
+		);
+	});
+
+	it("formats an appended section with a heading", () => {
+		const section = formatExportSection("body", meta);
+		expect(section).toContain("## Terminal export 2025-01-02 03:04");
+		expect(section).toContain("`/vault/sub`");
+		expect(section.trimEnd().endsWith("body")).toBe(true);
+	});
+});
@@ -0,0 +1,56 @@
+import {
+	emptyColors,
+	normalizeThemeSettings,
+	resolveTerminalTheme,
+	presetColors,
+	THEME_PRESETS,
+	TERMINAL_COLOR_KEYS,
+} from "../terminal-theme";
+
+describe("normalizeThemeSettings", () => {
+	it("applies colors saved by older versions to both modes", () => {
+		const theme = normalizeThemeSettings({ background: "#000000", foreground: "", cursor: "#ff0000" });
+		expect(theme.dark.background).toBe("#000000");
+		expect(theme.light.cursor).toBe("#ff0000");
+		expect(theme.dark.red).toBe("");
+	});
+
+	it("fills in missing colors and drops unknown keys", () => {
+		const theme = normalizeThemeSettings({ dark: { red: "#ff0000", bogus: "x" } });
+		expect(theme.dark).toEqual({ ...emptyColors(), red: "#ff0000" });
+		expect(theme.light).toEqual(emptyColors());
+	});
+});
+
+describe("resolveTerminalTheme", () => {
+	const cssVar = (name: string) => (name === "--color-red" ? "#e93147" : "");
+
+	it("prefers set colors, then Obsidian variables, then defaults", () => {
+		const theme = resolveTerminalTheme({ ...emptyColors(), background: "#101010" }, cssVar);
+		expect(theme.background).toBe("#101010");
+		expect(theme.red).toBe("#e93147");
+		expect(theme.brightRed).toBe("#e93147");
+		expect(theme.green).toBe("#a6e3a1");
+	});
+
+	it("uses the background for the cursor text unless set", () => {
+		expect(resolveTerminalTheme({ ...emptyColors(), background: "#101010" }, cssVar).cursorAccent).toBe("#101010");
+		expect(resolveTerminalTheme({ ...emptyColors(), cursorAccent: "#ffffff" }, cssVar).cursorAccent).toBe("#ffffff");
+	});
+
+	it("leaves colors without an Obsidian equivalent to xterm", () => {
+		expect(resolveTerminalTheme(emptyColors(), cssVar).selectionForeground).toBeUndefined();
+	});
+});
+
+describe("THEME_PRESETS", () => {
+	it("has a complete palette for every named theme", () => {
+		for (const preset of THEME_PRESETS.filter((p) => p.name !== "Obsidian")) {
+			const colors = presetColors(preset);
+			for (const key of TERMINAL_COLOR_KEYS) {
+				if (key === "cursorAccent" || key === "selectionForeground") continue;
+				expect(colors[key], `${preset.name} ${key}`).toMatch(/^#[0-9a-f]{6}$/);
+			}
+		}
+	});
+});
@@ -0,0 +1,26 @@
+import { cleanTitle, paneTitle } from "../terminal-title";
+
+describe("cleanTitle", () => {
+	it("removes control characters and extra whitespace", () => {
+		expect(cleanTitle("  vim\x07 \t notes.md\n")).toBe("vim notes.md");
+	});
+
+	it("cuts long titles", () => {
+		const title = cleanTitle("x".repeat(200));
+		expect(title.length).toBe(80);
+		expect(title.endsWith("…")).toBe(true);
+	});
+});
+
+describe("paneTitle", () => {
+	it("prefers the custom name, then the program title", () => {
+		expect(paneTitle({ custom: "Review", program: "claude", profileName: "Claude" })).toBe("Review");
+		expect(paneTitle({ custom: "  ", program: "✳ Fix tests", profileName: "Claude" })).toBe("✳ Fix tests");
+	});
+
+	it("falls back to the profile and folder name", () => {
+		expect(paneTitle({ profileName: "Shell", cwd: "/home/me/vault/Projects/" })).toBe("Shell · Projects");
+		expect(paneTitle({ profileName: "Shell", cwd: "C:\\vault\\Notes" })).toBe("Shell · Notes");
+		expect(paneTitle({ profileName: "Claude", cwd: null })).toBe("Claude");
+	});
+});
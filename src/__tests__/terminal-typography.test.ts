@@ -0,0 +1,101 @@
+import { DEFAULT_SETTINGS } from "../constants";
+import {
+	TYPOGRAPHY_LIMITS,
+	parseNumberSetting,
+	normalizeTypography,
+	parseFontList,
+	buildFontFamily,
+	terminalOptions,
+	findLigatures,
+} from "../terminal-typography";
+
+describe("parseNumberSetting", () => {
+	it("accepts numbers within the limits", () => {
+		expect(parseNumberSetting("1.2", TYPOGRAPHY_LIMITS.lineHeight)).toBe(1.2);
+		expect(parseNumberSetting(" -1 ", TYPOGRAPHY_LIMITS.letterSpacing)).toBe(-1);
+		expect(parseNumberSetting("5000", TYPOGRAPHY_LIMITS.scrollback)).toBe(5000);
+	});
+
+	it("rejects blanks, text, out-of-range and fractional whole-number values", () => {
+		expect(parseNumberSetting("", TYPOGRAPHY_LIMITS.lineHeight)).toBeNull();
+		expect(parseNumberSetting("tall", TYPOGRAPHY_LIMITS.lineHeight)).toBeNull();
+		expect(parseNumberSetting("0.8", TYPOGRAPHY_LIMITS.lineHeight)).toBeNull();
+		expect(parseNumberSetting("1.5", TYPOGRAPHY_LIMITS.letterSpacing)).toBeNull();
+		expect(parseNumberSetting("1e6", TYPOGRAPHY_LIMITS.scrollback)).toBeNull();
+	});
+});
+
+describe("normalizeTypography", () => {
+	it("keeps valid saved values", () => {
+		const result = normalizeTypography(
+			{ fontFamily: " Fira Code ", fontWeight: "400", lineHeight: 1.4, cursorStyle: "bar", cursorBlink: false, scrollback: 0 },
+			DEFAULT_SETTINGS,
+		);
+		expect(result).toMatchObject({
+			fontFamily: "Fira Code",
+			fontWeight: "400",
+			lineHeight: 1.4,
+			cursorStyle: "bar",
+			cursorBlink: false,
+			scrollback: 0,
+		});
+	});
+
+	it("falls back to the defaults for missing or invalid values", () => {
+		const result = normalizeTypography(
+			{ fontWeight: "heavy" as never, lineHeight: 0.5, letterSpacing: 2.5, cursorStyle: "beam" as never, ligatures: "yes" as never },
+			DEFAULT_SETTINGS,
+		);
+		expect(result).toMatchObject({
+			fontWeight: DEFAULT_SETTINGS.fontWeight,
+			lineHeight: DEFAULT_SETTINGS.lineHeight,
+			letterSpacing: DEFAULT_SETTINGS.letterSpacing,
+			cursorStyle: DEFAULT_SETTINGS.cursorStyle,
+			ligatures: DEFAULT_SETTINGS.ligatures,
+			scrollback: DEFAULT_SETTINGS.scrollback,
+		});
+	});
+
+	it("reads numeric font weights", () => {
+		expect(normalizeTypography({ fontWeightBold: 700 }, DEFAULT_SETTINGS).fontWeightBold).toBe("700");
+	});
+});
+
+describe("buildFontFamily", () => {
+	it("splits the list and drops quotes and blanks", () => {
+		expect(parseFontList(` "JetBrains Mono", 'Fira Code',, Menlo `)).toEqual(["JetBrains Mono", "Fira Code", "Menlo"]);
+	});
+
+	it("quotes names with spaces and appends the fallbacks once", () => {
+		expect(buildFontFamily("JetBrains Mono, Menlo", "Menlo")).toBe(`"JetBrains Mono", Menlo, monospace`);
+		expect(buildFontFamily("", "")).toBe("monospace");
+	});
+});
+
+describe("terminalOptions", () => {
+	it("maps the settings to xterm options", () => {
+		expect(terminalOptions({ ...DEFAULT_SETTINGS, fontFamily: "Iosevka", cursorStyle: "underline" }, "Menlo")).toEqual({
+			fontSize: 14,
+			fontFamily: "Iosevka, Menlo, monospace",
+			fontWeight: "100",
+			fontWeightBold: "200",
+			lineHeight: 1,
+			letterSpacing: 0,
+			cursorStyle: "underline",
+			cursorBlink: true,
+			scrollback: 1000,
+		});
+	});
+});
+
+describe("findLigatures", () => {
+	it("joins runs of two or more symbols", () => {
+		expect(findLigatures("a => b !== c")).toEqual([[2, 4], [7, 10]]);
+		expect(findLigatures("x -> y <= z :: w")).toEqual([[2, 4], [7, 9], [12, 14]]);
+	});
+
+	it("leaves single symbols and words alone", () => {
+		expect(findLigatures("a = b + c")).toEqual([]);
+		expect(findLigatures("www")).toEqual([]);
+	});
+});
@@ -0,0 +1,114 @@
+import { parseItermColors, parseWindowsTerminalScheme, parseBase16Yaml, importThemeFile } from "../theme-import";
+
+const ITERM = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+	<key>Ansi 1 Color</key>
+	<dict>
+		<key>Alpha Component</key>
+		<real>1</real>
+		<key>Blue Component</key>
+		<real>0.0</real>
+		<key>Color Space</key>
+		<string>sRGB</string>
+		<key>Green Component</key>
+		<real>0.5</real>
+		<key>Red Component</key>
+		<real>1</real>
+	</dict>
+	<key>Background Color</key>
+	<dict>
+		<key>Blue Component</key>
+		<real>0.1</real>
+		<key>Green Component</key>
+		<real>0.1</real>
+		<key>Red Component</key>
+		<real>0.1</real>
+	</dict>
+	<key>Selected Text Color</key>
+	<dict>
+		<key>Blue Component</key>
+		<integer>1</integer>
+		<key>Green Component</key>
+		<integer>1</integer>
+		<key>Red Component</key>
+		<integer>1</integer>
+	</dict>
+</dict>
+</plist>`;
+
+describe("parseItermColors", () => {
+	it("converts components to hex colors", () => {
+		expect(parseItermColors(ITERM).colors).toEqual({
+			red: "#ff8000",
+			background: "#1a1a1a",
+			selectionForeground: "#ffffff",
+		});
+	});
+});
+
+describe("parseWindowsTerminalScheme", () => {
+	it("reads a scheme, mapping purple to magenta", () => {
+		const theme = parseWindowsTerminalScheme(JSON.stringify({
+			name: "Campbell",
+			background: "#0C0C0C",
+			cursorColor: "#FFF",
+			purple: "#881798",
+			brightPurple: "#B4009E",
+			unknown: "#123456",
+		}));
+		expect(theme).toEqual({
+			name: "Campbell",
+			colors: { background: "#0c0c0c", cursor: "#ffffff", magenta: "#881798", brightMagenta: "#b4009e" },
+		});
+	});
+
+	it("takes the first scheme from a settings file", () => {
+		const theme = parseWindowsTerminalScheme(JSON.stringify({ schemes: [{ name: "One", red: "#ff0000" }, { name: "Two" }] }));
+		expect(theme.name).toBe("One");
+		expect(theme.colors).toEqual({ red: "#ff0000" });
+	});
+
+	it("reports invalid JSON", () => {
+		expect(() => parseWindowsTerminalScheme("{ nope")).toThrow("valid JSON");
+	});
+});
+
+describe("parseBase16Yaml", () => {
+	it("maps base colors to terminal colors", () => {
+		const theme = parseBase16Yaml([
+			'scheme: "Tomorrow Night"',
+			'base00: "1d1f21"',
+			'base05: "c5c8c6"',
+			"base08: cc6666",
+			'base0D: "81a2be"',
+		].join("\n"));
+		expect(theme.name).toBe("Tomorrow Night");
+		expect(theme.colors).toMatchObject({
+			background: "#1d1f21",
+			black: "#1d1f21",
+			foreground: "#c5c8c6",
+			red: "#cc6666",
+			brightRed: "#cc6666",
+			blue: "#81a2be",
+		});
+	});
+
+	it("reads the newer palette format", () => {
+		const theme = parseBase16Yaml('system: "base16"\nname: "Ocean"\npalette:\n  base00: "#2b303b"\n  base0e: "#b48ead"\n');
+		expect(theme.name).toBe("Ocean");
+		expect(theme.colors).toMatchObject({ background: "#2b303b", magenta: "#b48ead" });
+	});
+});
+
+describe("importThemeFile", () => {
+	it("picks the parser from the extension and names the theme after the file", () => {
+		expect(importThemeFile("Snazzy.itermcolors", ITERM).name).toBe("Snazzy");
+		expect(importThemeFile("scheme.json", '{"name":"X","red":"#ff0000"}').colors).toEqual({ red: "#ff0000" });
+		expect(importThemeFile("ocean.yaml", "base00: 2b303b").colors.background).toBe("#2b303b");
+	});
+
+	it("rejects files without colors", () => {
+		expect(() => importThemeFile("notes.txt", "hello")).toThrow("No terminal colors found");
+	});
+});
@@ -0,0 +1,104 @@
+import { findPathCandidates, resolveVaultPath, stringColumns } from "../vault-links";
+
+describe("findPathCandidates", () => {
+	it("finds a bare path with an extension", () => {
+		const text = "Updated notes/foo.md";
+		expect(findPathCandidates(text)).toEqual([
+			{ start: 8, end: 20, path: "notes/foo.md", line: undefined, col: undefined },
+		]);
+	});
+
+	it("parses :line and :line:col suffixes", () => {
+		const [a, b] = findPathCandidates("notes/foo.md:42 and src/a.ts:3:7");
+		expect(a).toMatchObject({ path: "notes/foo.md", line: 42, col: undefined });
+		expect(b).toMatchObject({ path: "src/a.ts", line: 3, col: 7 });
+		expect("notes/foo.md:42 and src/a.ts:3:7".slice(b.start, b.end)).toBe("src/a.ts:3:7");
+	});
+
+	it("finds @mentions, with or without an extension", () => {
+		const matches = findPathCandidates("Read @Projects/Alpha and @notes/todo.md");
+		expect(matches.map((m) => m.path)).toEqual(["Projects/Alpha", "notes/todo.md"]);
+		expect(matches[0].start).toBe(5);
+	});
+
+	it("drops trailing sentence punctuation from the match", () => {
+		const text = "See @notes/foo.md.";
+		const [match] = findPathCandidates(text);
+		expect(match.path).toBe("notes/foo.md");
+		expect(text.slice(match.start, match.end)).toBe("@notes/foo.md");
+	});
+
+	it("finds absolute and dot-relative paths", () => {
+		expect(findPathCandidates("/Users/me/vault/a.md ./b.md ../c.md").map((m) => m.path)).toEqual([
+			"/Users/me/vault/a.md", "./b.md", "../c.md",
+		]);
+	});
+
+	it("ignores words without an extension", () => {
+		expect(findPathCandidates("nothing to see here")).toEqual([]);
+	});
+
+	it("does not match inside URLs", () => {
+		expect(findPathCandidates("https://example.com/docs/page.html")).toEqual([]);
+	});
+});
+
+describe("resolveVaultPath", () => {
+	const files = new Set(["notes/foo.md", "sub/notes/bar.md"]);
+	const isFile = (p: string) => files.has(p);
+
+	it("resolves vault-relative paths", () => {
+		expect(resolveVaultPath("notes/foo.md", "/vault", "/vault", isFile)).toBe("notes/foo.md");
+	});
+
+	it("prefers the terminal cwd for relative paths", () => {
+		expect(resolveVaultPath("notes/bar.md", "/vault", "/vault/sub", isFile)).toBe("sub/notes/bar.md");
+	});
+
+	it("falls back to the vault root when the cwd doesn't contain the file", () => {
+		expect(resolveVaultPath("notes/foo.md", "/vault", "/vault/sub", isFile)).toBe("notes/foo.md");
+	});
+
+	it("resolves absolute paths inside the vault", () => {
+		expect(resolveVaultPath("/vault/notes/foo.md", "/vault", "/vault", isFile)).toBe("notes/foo.md");
+	});
+
+	it("rejects paths outside the vault", () => {
+		expect(resolveVaultPath("/etc/hosts.txt", "/vault", "/vault", () => true)).toBeNull();
+		expect(resolveVaultPath("../other/foo.md", "/vault", "/vault", () => true)).toBeNull();
+	});
+
+	it("rejects paths that aren't files in the vault", () => {
+		expect(resolveVaultPath("notes/missing.md", "/vault", "/vault", isFile)).toBeNull();
+	});
+});
+
+/** Buffer line of single cells, with wide characters followed by an empty spacer cell */
+function bufferLine(cells: string[]) {
+	const padded = cells.flatMap((chars) => (/[\u3000-\u9fff]|\p{Extended_Pictographic}/u.test(chars) ? [chars, ""] : [chars]));
+	return {
+		length: 40,
+		getCell: (x: number) => {
+			const chars = padded[x] ?? "";
+			const spacer = chars === "" && x < padded.length;
+			return { getChars: () => chars, getWidth: () => (spacer ? 0 : chars && padded[x + 1] === "" ? 2 : 1) } as any;
+		},
+	};
+}
+
+describe("stringColumns", () => {
+	it("matches string indices to cells on a plain line", () => {
+		const columns = stringColumns(bufferLine([..."ab c"]));
+		expect(columns.slice(0, 5)).toEqual([0, 1, 2, 3, 4]);
+	});
+
+	it("accounts for wide characters and surrogate pairs before a path", () => {
+		const text = "日本 🚀 notes/foo.md";
+		const columns = stringColumns(bufferLine(Array.from(text)));
+		const [match] = findPathCandidates(text);
+		expect(text.slice(match.start, match.end)).toBe("notes/foo.md");
+		// 日本 and 🚀 take two cells each, 🚀 is also two UTF-16 indices
+		expect(columns[match.start]).toBe(8);
+		expect(columns[match.end]).toBe(20);
+	});
+});
@@ -0,0 +1,31 @@
+import { parseWikilink, snippet } from "../vault-tools";
+
+describe("parseWikilink", () => {
+	it("strips brackets and aliases", () => {
+		expect(parseWikilink("[[Project Plan|the plan]]")).toEqual({ linkpath: "Project Plan", subpath: "" });
+	});
+
+	it("splits off heading and block subpaths", () => {
+		expect(parseWikilink("[[Plan#Goals]]")).toEqual({ linkpath: "Plan", subpath: "#Goals" });
+		expect(parseWikilink("Plan#^abc")).toEqual({ linkpath: "Plan", subpath: "#^abc" });
+	});
+
+	it("handles embeds", () => {
+		expect(parseWikilink("![[image.png]]")).toEqual({ linkpath: "image.png", subpath: "" });
+	});
+});
+
+describe("snippet", () => {
+	it("returns the match with surrounding context on one line", () => {
+		const text = "intro\nthe needle is here\noutro";
+		expect(snippet(text, 10, 16)).toBe("intro the needle is here outro");
+	});
+
+	it("marks truncated context with ellipses", () => {
+		const text = "a".repeat(100) + "needle" + "b".repeat(100);
+		const result = snippet(text, 100, 106);
+		expect(result.startsWith("…")).toBe(true);
+		expect(result.endsWith("…")).toBe(true);
+		expect(result).toContain("needle");
+	});
+});
@@ -0,0 +1,249 @@
+import { ItemView, Notice, WorkspaceLeaf, TFile, ViewStateResult, debounce, setIcon } from "obsidian";
+import { VIEW_TYPE_CHANGES } from "./constants";
+import { SessionChangeTracker, FileChange, changeKind } from "./session-changes";
+import { diffLines, buildHunks, revertHunk, findHunk, DiffOp, DiffHunk } from "./line-diff";
+
+type DiffLayout = "unified" | "split";
+
+/**
+ * Side view listing vault files changed during terminal sessions, with a
+ * diff per file and buttons to revert hunks or files, or accept changes.
+ */
+export class ChangesView extends ItemView {
+	private tracker: SessionChangeTracker;
+	private layout: DiffLayout = "unified";
+	/** Paths whose diff is expanded */
+	private expanded = new Set<string>();
+	private listEl: HTMLElement | null = null;
+	private requestRender = debounce(() => this.rerender(), 200, true);
+
+	constructor(leaf: WorkspaceLeaf, tracker: SessionChangeTracker) {
+		super(leaf);
+		this.tracker = tracker;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CHANGES;
+	}
+
+	getDisplayText(): string {
+		return "Session changes";
+	}
+
+	getIcon(): string {
+		return "file-diff";
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), layout: this.layout };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const { layout } = (state ?? {}) as { layout?: DiffLayout };
+		if (layout === "unified" || layout === "split") this.layout = layout;
+		await super.setState(state, result);
+		this.requestRender();
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.contentEl.addClass("claude-changes");
+		this.listEl = this.contentEl.createDiv({ cls: "claude-changes-list" });
+		this.registerEvent(this.tracker.on("changed", () => this.requestRender()));
+		await this.render();
+	}
+
+	async onClose() {
+		this.listEl = null;
+	}
+
+	/** Render without waiting, logging failures (a diff that can't be read) */
+	private rerender() {
+		this.render().catch((e) => console.error("obsidian-shell: failed to render session changes", e));
+	}
+
+	private async render() {
+		const listEl = this.listEl;
+		if (!listEl) return;
+
+		const changes = this.tracker.list();
+		// Build off-DOM so the list doesn't flicker while diffs are read
+		const fragment = createDiv();
+		this.renderToolbar(fragment, changes.length);
+
+		if (changes.length === 0) {
+			fragment.createDiv({
+				cls: "claude-changes-empty",
+				text: this.tracker.isTracking
+					? "No files changed yet. Edits made while a terminal is running appear here."
+					: "No changes. Files are tracked while a terminal is running.",
+			});
+		}
+		for (const change of changes) {
+			await this.renderChange(fragment, change);
+		}
+
+		listEl.empty();
+		listEl.append(...Array.from(fragment.childNodes));
+	}
+
+	private renderToolbar(parentEl: HTMLElement, count: number) {
+		const toolbar = parentEl.createDiv({ cls: "claude-changes-toolbar" });
+		toolbar.createSpan({
+			cls: "claude-changes-summary",
+			text: count === 1 ? "1 file changed" : `${count} files changed`,
+		});
+
+		const layoutButton = toolbar.createEl("button", {
+			text: this.layout === "unified" ? "Side by side" : "Unified",
+			attr: { "aria-label": "Switch diff layout" },
+		});
+		layoutButton.addEventListener("click", () => {
+			this.layout = this.layout === "unified" ? "split" : "unified";
+			this.app.workspace.requestSaveLayout();
+			this.rerender();
+		});
+
+		const acceptAll = toolbar.createEl("button", { text: "Accept all", cls: "mod-cta" });
+		acceptAll.disabled = count === 0;
+		acceptAll.addEventListener("click", () => this.tracker.accept());
+	}
+
+	private async renderChange(parentEl: HTMLElement, change: FileChange) {
+		const kind = changeKind(change);
+		const fileEl = parentEl.createDiv({ cls: `claude-changes-file is-${kind}` });
+		const header = fileEl.createDiv({ cls: "claude-changes-file-header" });
+		const isExpanded = this.expanded.has(change.path);
+
+		const toggle = header.createSpan({ cls: "claude-changes-toggle" });
+		setIcon(toggle, isExpanded ? "chevron-down" : "chevron-right");
+		header.createSpan({ cls: "claude-changes-kind", text: kind });
+		const name = header.createSpan({ cls: "claude-changes-path" });
+		name.setText(change.originalPath ? `${change.originalPath} → ${change.path}` : change.path);
+		header.addEventListener("click", () => {
+			if (isExpanded) this.expanded.delete(change.path);
+			else this.expanded.add(change.path);
+			this.rerender();
+		});
+
+		const actions = header.createDiv({ cls: "claude-changes-actions" });
+		if (!change.deleted) {
+			this.addIconButton(actions, "file-symlink", "Open file", async () => {
+				const file = this.app.vault.getAbstractFileByPath(change.path);
+				if (file instanceof TFile) await this.app.workspace.getLeaf(false).openFile(file);
+			});
+		}
+		if (change.original !== undefined) {
+			this.addIconButton(actions, "undo-2", kind === "created" ? "Delete file" : "Revert file",
+				() => this.tracker.revert(change.path));
+		}
+		this.addIconButton(actions, "check", "Accept", () => this.tracker.accept(change.path));
+
+		if (!isExpanded) return;
+
+		const bodyEl = fileEl.createDiv({ cls: "claude-changes-diff" });
+		if (change.original === undefined) {
+			bodyEl.createDiv({
+				cls: "claude-changes-note",
+				text: "The original content wasn't captured (binary, too large, or changed before tracking finished).",
+			});
+			return;
+		}
+
+		const current = (await this.tracker.readCurrent(change)) ?? "";
+		const ops = diffLines(change.original ?? "", current);
+		const hunks = buildHunks(ops);
+		if (hunks.length === 0) {
+			bodyEl.createDiv({ cls: "claude-changes-note", text: "Content is unchanged." });
+			return;
+		}
+		// Created and deleted files are reverted whole
+		const canRevertHunks = kind === "modified";
+		for (const hunk of hunks) {
+			const shown = ops.slice(hunk.start, hunk.end);
+			const revert = canRevertHunks ? () => this.revertShownHunk(change.path, shown) : null;
+			this.renderHunk(bodyEl, ops, hunk, revert);
+		}
+	}
+
+	/**
+	 * Revert a hunk as shown in the view. The file is diffed again first, since
+	 * it may have changed after rendering; if the hunk is no longer there the
+	 * file is left alone and the diff redrawn.
+	 */
+	private async revertShownHunk(path: string, shown: DiffOp[]) {
+		const change = this.tracker.get(path);
+		const current = change ? await this.tracker.readCurrent(change) : null;
+		const ops = typeof change?.original === "string" && current !== null ? diffLines(change.original, current) : null;
+		const hunk = ops && findHunk(ops, shown);
+		if (!ops || !hunk) {
+			this.rerender();
+			throw new Error("the file has changed since the diff was shown");
+		}
+		await this.tracker.write(path, revertHunk(ops, hunk));
+	}
+
+	private renderHunk(parentEl: HTMLElement, ops: DiffOp[], hunk: DiffHunk, revert: (() => unknown) | null) {
+		const hunkEl = parentEl.createDiv({ cls: "claude-changes-hunk" });
+		const header = hunkEl.createDiv({ cls: "claude-changes-hunk-header" });
+		header.createSpan({ text: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@` });
+		if (revert) this.addIconButton(header, "undo-2", "Revert hunk", revert);
+
+		const slice = ops.slice(hunk.start, hunk.end);
+		if (this.layout === "unified") this.renderUnified(hunkEl, slice);
+		else this.renderSplit(hunkEl, slice);
+	}
+
+	private renderUnified(parentEl: HTMLElement, ops: DiffOp[]) {
+		const pre = parentEl.createEl("pre", { cls: "claude-changes-lines" });
+		const prefix = { equal: " ", delete: "-", insert: "+" };
+		for (const op of ops) {
+			pre.createDiv({ cls: `claude-changes-line is-${op.type}`, text: `${prefix[op.type]} ${op.text}` });
+		}
+	}
+
+	/** Two columns; runs of deletions and insertions are paired row by row */
+	private renderSplit(parentEl: HTMLElement, ops: DiffOp[]) {
+		const table = parentEl.createDiv({ cls: "claude-changes-split" });
+		const row = (left: DiffOp | null, right: DiffOp | null) => {
+			table.createDiv({ cls: `claude-changes-line is-${left?.type ?? "empty"}`, text: left?.text ?? "" });
+			table.createDiv({ cls: `claude-changes-line is-${right?.type ?? "empty"}`, text: right?.text ?? "" });
+		};
+
+		let i = 0;
+		while (i < ops.length) {
+			if (ops[i].type === "equal") {
+				row(ops[i], ops[i]);
+				i++;
+				continue;
+			}
+			const deleted: DiffOp[] = [];
+			const inserted: DiffOp[] = [];
+			while (i < ops.length && ops[i].type !== "equal") {
+				(ops[i].type === "delete" ? deleted : inserted).push(ops[i]);
+				i++;
+			}
+			for (let r = 0; r < Math.max(deleted.length, inserted.length); r++) {
+				row(deleted[r] ?? null, inserted[r] ?? null);
+			}
+		}
+	}
+
+	/** Icon button whose action can be async; failures are shown in a notice */
+	private addIconButton(parentEl: HTMLElement, icon: string, label: string, onClick: () => unknown) {
+		const button = parentEl.createEl("button", { cls: "clickable-icon", attr: { "aria-label": label } });
+		setIcon(button, icon);
+		button.addEventListener("click", async (e) => {
+			e.stopPropagation();
+			button.disabled = true;
+			try {
+				await onClick();
+			} catch (err) {
+				console.error(`obsidian-shell: ${label.toLowerCase()} failed`, err);
+				new Notice(`${label} failed: ${err instanceof Error ? err.message : err}`);
+			} finally {
+				button.disabled = false;
+			}
+		});
+	}
+}
@@ -0,0 +1,93 @@
+import { App, Modal, Notice } from "obsidian";
+import { CheckpointStore, CheckpointInfo } from "./checkpoints";
+import { formatLocalDateTime } from "./terminal-text";
+
+/**
+ * Lists checkpoints, newest first, with the prompt that started each one.
+ * Restoring asks for a second click to confirm.
+ */
+export class CheckpointsModal extends Modal {
+	private store: CheckpointStore;
+
+	constructor(app: App, store: CheckpointStore) {
+		super(app);
+		this.store = store;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText("Checkpoints");
+		contentEl.addClass("claude-checkpoints-modal");
+
+		const checkpoints = await this.store.list();
+		if (checkpoints.length === 0) {
+			contentEl.createEl("p", {
+				cls: "setting-item-description",
+				text: "No checkpoints yet. One is made each time you submit a prompt in a Claude terminal.",
+			});
+			return;
+		}
+
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Restoring puts changed files back the way they were when the prompt was sent.",
+		});
+		const listEl = contentEl.createDiv({ cls: "claude-checkpoints" });
+		for (const checkpoint of checkpoints) this.renderCheckpoint(listEl, checkpoint);
+	}
+
+	private renderCheckpoint(parentEl: HTMLElement, checkpoint: CheckpointInfo) {
+		const row = parentEl.createDiv({ cls: "claude-checkpoint" });
+		const text = row.createDiv({ cls: "claude-checkpoint-text" });
+		text.createDiv({ cls: "claude-checkpoint-prompt", text: checkpoint.prompt || "(no text)" });
+
+		const count = checkpoint.paths.length;
+		const meta = `${formatLocalDateTime(new Date(checkpoint.time)).replace("T", " ")} · ` +
+			(count === 1 ? "1 file changed before the next prompt" : `${count} files changed before the next prompt`);
+		text.createDiv({ cls: "claude-checkpoint-meta", text: meta, attr: { title: checkpoint.paths.join("\n") } });
+
+		const button = row.createEl("button", { text: "Restore" });
+		let confirming = false;
+		button.addEventListener("click", async () => {
+			if (!confirming) {
+				confirming = true;
+				button.setText("Confirm restore");
+				button.addClass("mod-warning");
+				await this.showUncaptured(text, checkpoint);
+				return;
+			}
+			button.disabled = true;
+			try {
+				const { restored, uncaptured } = await this.store.restore(checkpoint.id);
+				let message = restored === 1 ? "Restored 1 file." : `Restored ${restored} files.`;
+				if (uncaptured.length > 0) {
+					message += uncaptured.length === 1 ? " 1 file couldn't be restored." : ` ${uncaptured.length} files couldn't be restored.`;
+				}
+				new Notice(message);
+				this.close();
+			} catch (e) {
+				console.error("obsidian-shell: checkpoint restore failed", e);
+				new Notice(`Restore failed: ${e instanceof Error ? e.message : e}`);
+				button.disabled = false;
+			}
+		});
+	}
+
+	/** Warn, before the restore is confirmed, about files it will leave as they are */
+	private async showUncaptured(textEl: HTMLElement, checkpoint: CheckpointInfo) {
+		try {
+			const uncaptured = await this.store.uncapturedFiles(checkpoint.id);
+			if (uncaptured.length === 0) return;
+			textEl.createDiv({
+				cls: "claude-checkpoint-warning",
+				text: `Not saved, so left as they are now: ${uncaptured.join(", ")}`,
+			});
+		} catch (e) {
+			console.error("obsidian-shell: failed to read checkpoint", e);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,245 @@
+import { DataAdapter, TFile, TFolder, Vault, normalizePath } from "obsidian";
+
+const MAX_CHECKPOINTS = 100;
+const INDEX_FILE = "index.json";
+
+export interface CheckpointInfo {
+	id: string;
+	/** When the prompt was submitted (ms since epoch) */
+	time: number;
+	prompt: string;
+	/** Files changed after this checkpoint, before the next one */
+	paths: string[];
+	/**
+	 * Files in `paths` whose content from before the change wasn't captured
+	 * (not text, too large, or changed before the vault was read), so a
+	 * restore can't put them back
+	 */
+	uncaptured?: string[];
+}
+
+export interface RestoreResult {
+	/** Files written or deleted */
+	restored: number;
+	/** Files changed since the checkpoint that were left as they are */
+	uncaptured: string[];
+}
+
+/** Content of each changed file as of the checkpoint; null if it didn't exist */
+type CheckpointFiles = Record<string, string | null>;
+
+/**
+ * Keep the text typed at a prompt so it can label a checkpoint. Feed each
+ * chunk from `terminal.onData`; `submitted` is set when Enter is pressed.
+ * Pastes are kept, escape sequences (arrows, function keys) are ignored.
+ */
+export function updatePromptBuffer(buffer: string, data: string): { buffer: string; submitted?: string } {
+	const text = data
+		// A bracketed paste can contain CRs that aren't Enter presses
+		.replace(/\x1b\[200~([\s\S]*?)\x1b\[201~/g, (_, paste: string) => paste.replace(/[\r\n]+/g, " "))
+		.replace(/\x1b(?:\[[0-9;?]*[ -/]*[@-~]|O.|.)/g, "");
+
+	let submitted: string | undefined;
+	for (const ch of text) {
+		if (ch === "\r") {
+			submitted = buffer.trim();
+			buffer = "";
+		} else if (ch === "\x7f" || ch === "\b") {
+			buffer = buffer.slice(0, -1);
+		} else if (ch === "\x03" || ch === "\x15") {
+			// Ctrl+C / Ctrl+U clear the input
+			buffer = "";
+		} else if (ch >= " " || ch === "\n") {
+			buffer += ch === "\n" ? " " : ch;
+		}
+	}
+	return { buffer, submitted };
+}
+
+/**
+ * Whether submitted text looks like a prompt rather than an answer to a
+ * menu or permission question ("2", "y"), which shouldn't start a checkpoint.
+ */
+export function isPromptSubmission(text: string): boolean {
+	return [...text].length > 1 && !/^\d+$/.test(text);
+}
+
+/**
+ * Local history of the vault, one checkpoint per prompt sent to Claude.
+ * Each checkpoint stores the previous content of the files changed after it
+ * (an undo log), so restoring one replays the stored content of it and every
+ * later checkpoint. Saved as JSON in the plugin folder; the oldest are pruned.
+ */
+export class CheckpointStore {
+	private adapter: DataAdapter;
+	private vault: Vault;
+	private dir: string;
+	private index: CheckpointInfo[] | null = null;
+	/** The latest checkpoint, still collecting changes */
+	private current: { info: CheckpointInfo; files: CheckpointFiles } | null = null;
+	private dirty = false;
+
+	constructor(vault: Vault, dir: string) {
+		this.vault = vault;
+		this.adapter = vault.adapter;
+		this.dir = normalizePath(dir);
+	}
+
+	/** Start a new checkpoint; changes from now on are recorded against it */
+	async create(prompt: string) {
+		await this.flush();
+		const time = Date.now();
+		this.current = {
+			info: { id: `${time.toString(36)}-${Math.random().toString(36).slice(2, 6)}`, time, prompt, paths: [] },
+			files: {},
+		};
+		this.dirty = true;
+	}
+
+	/**
+	 * Record a file's content from before a change. Only the first change
+	 * after a checkpoint matters; `undefined` marks the file as changed
+	 * without content to restore.
+	 */
+	noteChange(path: string, before: string | null | undefined) {
+		const current = this.current;
+		if (!current || path in current.files || current.info.uncaptured?.includes(path)) return;
+		current.info.paths.push(path);
+		if (before === undefined) (current.info.uncaptured ??= []).push(path);
+		else current.files[path] = before;
+		this.dirty = true;
+	}
+
+	/** All checkpoints, newest first */
+	async list(): Promise<CheckpointInfo[]> {
+		await this.flush();
+		return [...(await this.loadIndex())].reverse();
+	}
+
+	/** Files changed since a checkpoint that restoring it would leave as they are */
+	async uncapturedFiles(id: string): Promise<string[]> {
+		return (await this.planRestore(id)).uncaptured;
+	}
+
+	/**
+	 * Put the vault back the way it was when the checkpoint was created.
+	 * A new checkpoint is made first, so the restore itself can be undone.
+	 */
+	async restore(id: string): Promise<RestoreResult> {
+		const { info, target, uncaptured } = await this.planRestore(id);
+		await this.create(`Before restoring "${info.prompt}"`);
+		// Record what's being overwritten here rather than waiting for change
+		// events, which only arrive while a terminal is running
+		for (const path of target.keys()) {
+			this.noteChange(path, await this.readCurrent(path));
+		}
+		for (const [path, content] of target) {
+			await this.writeFile(path, content);
+		}
+		return { restored: target.size, uncaptured };
+	}
+
+	/**
+	 * The content each file had at a checkpoint: the first change recorded at
+	 * or after it. Files whose first change wasn't captured can't be restored.
+	 */
+	private async planRestore(id: string) {
+		await this.flush();
+		const index = await this.loadIndex();
+		const position = index.findIndex((c) => c.id === id);
+		if (position === -1) throw new Error(`Unknown checkpoint ${id}`);
+
+		const target = new Map<string, string | null>();
+		const uncaptured = new Set<string>();
+		for (const checkpoint of index.slice(position)) {
+			const files = await this.loadFiles(checkpoint.id);
+			for (const [path, content] of Object.entries(files)) {
+				if (!target.has(path) && !uncaptured.has(path)) target.set(path, content);
+			}
+			for (const path of checkpoint.uncaptured ?? []) {
+				if (!target.has(path)) uncaptured.add(path);
+			}
+		}
+		return { info: index[position], target, uncaptured: [...uncaptured] };
+	}
+
+	/** A file's content now; null if it doesn't exist, undefined if it can't be read */
+	private async readCurrent(path: string): Promise<string | null | undefined> {
+		const existing = this.vault.getAbstractFileByPath(path);
+		if (!(existing instanceof TFile)) return null;
+		try {
+			return await this.vault.read(existing);
+		} catch {
+			return undefined;
+		}
+	}
+
+	/** Save the current checkpoint if it changed since the last save */
+	async flush() {
+		const current = this.current;
+		if (!current || !this.dirty) return;
+		this.dirty = false;
+
+		await this.ensureDir();
+		await this.adapter.write(this.filePath(current.info.id), JSON.stringify(current.files));
+
+		const index = await this.loadIndex();
+		const existing = index.findIndex((c) => c.id === current.info.id);
+		const info = { ...current.info, paths: [...current.info.paths] };
+		if (current.info.uncaptured) info.uncaptured = [...current.info.uncaptured];
+		if (existing === -1) index.push(info);
+		else index[existing] = info;
+
+		for (const old of index.splice(0, Math.max(0, index.length - MAX_CHECKPOINTS))) {
+			await this.adapter.remove(this.filePath(old.id)).catch(() => {});
+		}
+		await this.adapter.write(normalizePath(`${this.dir}/${INDEX_FILE}`), JSON.stringify(index));
+	}
+
+	private async writeFile(path: string, content: string | null) {
+		const existing = this.vault.getAbstractFileByPath(path);
+		if (content === null) {
+			if (existing instanceof TFile) await this.vault.delete(existing);
+			return;
+		}
+		if (existing instanceof TFile) {
+			await this.vault.modify(existing, content);
+			return;
+		}
+		const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+		if (parent && !(this.vault.getAbstractFileByPath(parent) instanceof TFolder)) {
+			await this.vault.createFolder(parent);
+		}
+		await this.vault.create(path, content);
+	}
+
+	private async loadIndex(): Promise<CheckpointInfo[]> {
+		if (this.index) return this.index;
+		const path = normalizePath(`${this.dir}/${INDEX_FILE}`);
+		try {
+			this.index = (await this.adapter.exists(path)) ? JSON.parse(await this.adapter.read(path)) : [];
+		} catch (e) {
+			console.error("obsidian-shell: failed to read checkpoint index", e);
+			this.index = [];
+		}
+		return this.index!;
+	}
+
+	private async loadFiles(id: string): Promise<CheckpointFiles> {
+		if (this.current?.info.id === id) return this.current.files;
+		try {
+			return JSON.parse(await this.adapter.read(this.filePath(id)));
+		} catch {
+			// Missing or unreadable: nothing to restore from this checkpoint
+			return {};
+		}
+	}
+
+	private async ensureDir() {
+		if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+	}
+
+	private filePath(id: string): string {
+		return normalizePath(`${this.dir}/${id}.json`);
+	}
+}
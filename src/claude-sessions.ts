@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+
+const MAX_SESSIONS = 200;
+const MAX_PROMPT_LENGTH = 200;
+/** A top-level user or assistant entry; quotes inside message text are escaped, so they don't match */
+const MESSAGE_LINE = /"type"\s*:\s*"(?:user|assistant)"/;
+
+export interface ClaudeSession {
+	id: string;
+	/** First real user prompt, whitespace-collapsed */
+	firstPrompt: string;
+	/** Summary line written by the CLI before the first prompt, if any */
+	summary: string | null;
+	/** When the transcript was last written */
+	timestamp: Date | null;
+	messageCount: number;
+}
+
+/**
+ * Directory where the Claude CLI keeps transcripts for a project.
+ * The CLI encodes the absolute cwd by replacing every non-alphanumeric
+ * character with "-", e.g. /Users/me/vault => -Users-me-vault.
+ */
+export function claudeProjectDir(cwd: string, home = process.env.HOME || ""): string {
+	return path.join(home, ".claude", "projects", cwd.replace(/[^a-zA-Z0-9]/g, "-"));
+}
+
+/**
+ * Parse the lines of one `<session-id>.jsonl` transcript. Lines are parsed
+ * as JSON only until the first real prompt; after that, messages are just
+ * counted, so long transcripts stay cheap. Returns null for transcripts
+ * without any user or assistant messages (e.g. summary-only files).
+ */
+export async function parseSessionTranscript(
+	id: string,
+	lines: Iterable<string> | AsyncIterable<string>,
+	timestamp: Date | null,
+): Promise<ClaudeSession | null> {
+	let firstPrompt = "";
+	let summary: string | null = null;
+	let messageCount = 0;
+
+	for await (const line of lines) {
+		if (firstPrompt) {
+			if (MESSAGE_LINE.test(line)) messageCount++;
+			continue;
+		}
+		if (!line.trim()) continue;
+		let entry: any;
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			// Partially written line — the CLI may still be appending
+			continue;
+		}
+
+		if (entry.type === "summary" && typeof entry.summary === "string") {
+			summary = entry.summary;
+			continue;
+		}
+		if (entry.type !== "user" && entry.type !== "assistant") continue;
+
+		messageCount++;
+		if (entry.type === "user" && !entry.isMeta) firstPrompt = promptText(entry.message?.content);
+	}
+
+	if (messageCount === 0) return null;
+	return { id, firstPrompt, summary, timestamp, messageCount };
+}
+
+/** Read a transcript file line by line */
+async function readSessionFile(id: string, file: string, timestamp: Date): Promise<ClaudeSession | null> {
+	const stream = fs.createReadStream(file, { encoding: "utf8" });
+	const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+	try {
+		return await parseSessionTranscript(id, lines, timestamp);
+	} finally {
+		lines.close();
+		stream.destroy();
+	}
+}
+
+/** Extract displayable text from a user message, skipping tool results and CLI markup */
+function promptText(content: unknown): string {
+	let text = "";
+	if (typeof content === "string") {
+		text = content;
+	} else if (Array.isArray(content)) {
+		text = content
+			.filter((part) => part?.type === "text" && typeof part.text === "string")
+			.map((part) => part.text)
+			.join(" ");
+	}
+	text = text.replace(/\s+/g, " ").trim();
+	// Slash commands and hook output are wrapped in <command-name> etc.
+	if (text.startsWith("<")) return "";
+	return text.length > MAX_PROMPT_LENGTH ? text.slice(0, MAX_PROMPT_LENGTH - 1) + "…" : text;
+}
+
+/**
+ * List past Claude sessions for a project directory, newest first.
+ * Returns an empty list if the CLI has never run there.
+ */
+export async function listClaudeSessions(cwd: string): Promise<ClaudeSession[]> {
+	const dir = claudeProjectDir(cwd);
+	let names: string[];
+	try {
+		names = await fs.promises.readdir(dir);
+	} catch {
+		return [];
+	}
+
+	const stats = await Promise.all(
+		names
+			.filter((name) => name.endsWith(".jsonl"))
+			.map(async (name) => {
+				const full = path.join(dir, name);
+				try {
+					const stat = await fs.promises.stat(full);
+					return { name, full, mtime: stat.mtimeMs };
+				} catch {
+					// Deleted since the directory was listed
+					return null;
+				}
+			}),
+	);
+	const files = stats.filter((file): file is NonNullable<(typeof stats)[number]> => file !== null);
+	files.sort((a, b) => b.mtime - a.mtime);
+
+	const sessions: ClaudeSession[] = [];
+	for (const file of files.slice(0, MAX_SESSIONS)) {
+		try {
+			const session = await readSessionFile(path.basename(file.name, ".jsonl"), file.full, new Date(file.mtime));
+			if (session) sessions.push(session);
+		} catch (err) {
+			console.warn(`obsidian-shell: failed to read Claude transcript ${file.full}`, err);
+		}
+	}
+	return sessions;
+}
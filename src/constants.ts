@@ -1,27 +1,179 @@
+import { createDefaultProfiles, DEFAULT_PROFILE_ID } from "./profiles";
+import { emptyColors } from "./terminal-theme";
+import type { FontWeight } from "@xterm/xterm";
+import type { CursorStyle } from "./terminal-typography";
+
 export const VIEW_TYPE_TERMINAL = "claude-shell-view";
+export const VIEW_TYPE_CHANGES = "claude-shell-changes";
 
 export const DEFAULT_SETTINGS: ClaudeTerminalSettings = {
-	claudeFlags: "",
+	profiles: createDefaultProfiles(),
+	defaultProfileId: DEFAULT_PROFILE_ID,
 	shellPath: "",
 	fontSize: 14,
-	autoLaunch: true,
+	fontFamily: "",
+	fontWeight: "100",
+	fontWeightBold: "200",
+	lineHeight: 1,
+	letterSpacing: 0,
+	ligatures: false,
+	cursorStyle: "block",
+	cursorBlink: true,
+	scrollback: 1000,
 	focusTerminalOnContext: true,
+	restoreScrollback: true,
+	templates: {
+		addNote: "Read @{{path}}{{#startLine}} lines {{startLine}}-{{endLine}}{{/startLine}} ",
+		addNotes: "Read these files: {{paths}} ",
+		sendSelection: "From {{path}}{{#startLine}} (lines {{startLine}}-{{endLine}}){{/startLine}}:\n\n{{selection}} ",
+	},
+	customActions: [],
+	linkDepth: 1,
+	includeBacklinks: false,
+	maxLinkedFiles: 20,
+	maxFilesPerMessage: 25,
+	manifestFolder: "Claude context",
+	mcpServer: true,
+	checkpoints: true,
+	baselineSizeMB: 16,
+	keyBindings: [
+		{ key: "Shift+Enter", action: "send", text: "\\n" },
+		{ key: "Mod+Shift+L", action: "terminal", text: "" },
+		{ key: "Mod+Shift+K", action: "terminal", text: "" },
+	],
+	optionAsMeta: true,
 	theme: {
-		background: "",
-		foreground: "",
-		cursor: "",
+		dark: emptyColors(),
+		light: emptyColors(),
 	},
 };
 
+export interface LaunchProfile {
+	id: string;
+	name: string;
+	/** Program to run. Blank launches the login shell. */
+	command: string;
+	/** Extra arguments, parsed with shell-style quoting */
+	args: string;
+	/** Working directory. Blank for the vault root, relative to the vault otherwise. */
+	cwd: string;
+	env: Record<string, string>;
+	icon: string;
+	showInRibbon: boolean;
+	/** Whether to start the program again when it exits */
+	restart: RestartPolicy;
+	/** How OSC 9/777 notifications from the program are shown */
+	notifications: NotificationMode;
+}
+
+export type RestartPolicy = "never" | "on-failure" | "always";
+
+/** "desktop" adds a system notification when Obsidian isn't focused; "notice" shows only the in-app notice */
+export type NotificationMode = "desktop" | "notice" | "off";
+
+export interface MessageTemplates {
+	/** "Add note" with a single file, also sent for selections too large to paste */
+	addNote: string;
+	/** "Add note" with several files */
+	addNotes: string;
+	/** "Send selection" when the selection comes from a note */
+	sendSelection: string;
+}
+
+/**
+ * What a key does while a terminal has focus:
+ * - "terminal": the program gets the key; an Obsidian hotkey on it doesn't fire
+ * - "obsidian": the terminal ignores the key, leaving it to Obsidian's hotkeys
+ * - "send": write `text` (with escapes like \n, \r, \e, \x1b) instead of the key
+ * - "clear": clear the terminal's screen and scrollback
+ */
+export type KeyAction = "terminal" | "obsidian" | "send" | "clear";
+
+export interface KeyBinding {
+	/** Obsidian-style key combination, e.g. "Mod+Shift+K" */
+	key: string;
+	action: KeyAction;
+	/** Escaped text for "send" */
+	text: string;
+}
+
+/** User-defined command that types a rendered template into the terminal */
+export interface CustomAction {
+	id: string;
+	name: string;
+	template: string;
+}
+
 export interface ClaudeTerminalSettings {
-	claudeFlags: string;
+	profiles: LaunchProfile[];
+	defaultProfileId: string;
 	shellPath: string;
 	fontSize: number;
-	autoLaunch: boolean;
+	/** Comma-separated font families tried before Obsidian's monospace font */
+	fontFamily: string;
+	fontWeight: FontWeight;
+	fontWeightBold: FontWeight;
+	/** Multiple of the font's line height, at least 1 */
+	lineHeight: number;
+	/** Extra pixels between characters */
+	letterSpacing: number;
+	/** Draw symbol runs like "=>" together so fonts with ligatures can combine them */
+	ligatures: boolean;
+	cursorStyle: CursorStyle;
+	cursorBlink: boolean;
+	/** Lines kept above the screen */
+	scrollback: number;
 	focusTerminalOnContext: boolean;
+	restoreScrollback: boolean;
+	templates: MessageTemplates;
+	customActions: CustomAction[];
+	/** How many hops "Add note with links" follows */
+	linkDepth: number;
+	includeBacklinks: boolean;
+	maxLinkedFiles: number;
+	/** Larger file sets are written to a manifest note instead of one long message */
+	maxFilesPerMessage: number;
+	manifestFolder: string;
+	/** Serve vault metadata to Claude over a local MCP server */
+	mcpServer: boolean;
+	/** Record a vault checkpoint each time a prompt is submitted to Claude */
+	checkpoints: boolean;
+	/** Megabytes of vault text kept in memory so the first change to a file can be diffed; 0 turns it off */
+	baselineSizeMB: number;
+	/** Key bindings applied while a terminal has focus; keys not listed go to both */
+	keyBindings: KeyBinding[];
+	/** macOS: Option sends Meta (Esc-prefixed keys) instead of typing special characters */
+	optionAsMeta: boolean;
+	/** Terminal colors for Obsidian's dark and light modes */
 	theme: {
-		background: string;
-		foreground: string;
-		cursor: string;
+		dark: TerminalColors;
+		light: TerminalColors;
 	};
 }
+
+/** Terminal colors as CSS colors; blank uses the matching Obsidian theme color */
+export interface TerminalColors {
+	background: string;
+	foreground: string;
+	cursor: string;
+	/** Text under a block cursor */
+	cursorAccent: string;
+	selectionBackground: string;
+	selectionForeground: string;
+	black: string;
+	red: string;
+	green: string;
+	yellow: string;
+	blue: string;
+	magenta: string;
+	cyan: string;
+	white: string;
+	brightBlack: string;
+	brightRed: string;
+	brightGreen: string;
+	brightYellow: string;
+	brightBlue: string;
+	brightMagenta: string;
+	brightCyan: string;
+	brightWhite: string;
+}
@@ -0,0 +1,157 @@
+import { App, FuzzySuggestModal, Modal, Setting, TFolder } from "obsidian";
+import type { LaunchProfile } from "./constants";
+
+/** Fuzzy picker over the vault's tags, showing how many notes use each */
+export class TagSuggestModal extends FuzzySuggestModal<[string, number]> {
+	private tags: [string, number][];
+	private onPick: (tag: string) => void;
+
+	constructor(app: App, tags: [string, number][], onPick: (tag: string) => void) {
+		super(app);
+		this.tags = tags;
+		this.onPick = onPick;
+		this.setPlaceholder("Pick a tag…");
+	}
+
+	getItems(): [string, number][] {
+		return this.tags;
+	}
+
+	getItemText([tag, count]: [string, number]): string {
+		return `${tag} (${count})`;
+	}
+
+	onChooseItem([tag]: [string, number]) {
+		this.onPick(tag);
+	}
+}
+
+/** Fuzzy picker over launch profiles */
+export class ProfileSuggestModal extends FuzzySuggestModal<LaunchProfile> {
+	private profiles: LaunchProfile[];
+	private onPick: (profile: LaunchProfile) => void;
+
+	constructor(app: App, profiles: LaunchProfile[], onPick: (profile: LaunchProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onPick = onPick;
+		this.setPlaceholder("Open which profile in the new pane?");
+	}
+
+	getItems(): LaunchProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: LaunchProfile): string {
+		return profile.name;
+	}
+
+	onChooseItem(profile: LaunchProfile) {
+		this.onPick(profile);
+	}
+}
+
+/** Fuzzy picker over the vault's folders */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	private onPick: (folder: TFolder) => void;
+
+	constructor(app: App, onPick: (folder: TFolder) => void) {
+		super(app);
+		this.onPick = onPick;
+		this.setPlaceholder("Pick a folder…");
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder) {
+		this.onPick(folder);
+	}
+}
+
+/** Single text input, submitted with Enter or the button */
+export class QueryModal extends Modal {
+	private heading: string;
+	private onSubmit: (query: string) => void;
+
+	constructor(app: App, heading: string, onSubmit: (query: string) => void) {
+		super(app);
+		this.heading = heading;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.titleEl.setText(this.heading);
+		let query = "";
+		const submit = () => {
+			if (!query.trim()) return;
+			this.close();
+			this.onSubmit(query.trim());
+		};
+
+		new Setting(this.contentEl)
+			.addText((text) => {
+				text.setPlaceholder("meeting notes alpha").onChange((value) => (query = value));
+				text.inputEl.addEventListener("keydown", (e) => {
+					if (e.key === "Enter") {
+						e.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			})
+			.addButton((button) => button.setButtonText("Search").setCta().onClick(submit));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+/** Text input prefilled with a current name; an empty value is allowed and means "reset" */
+export class RenameModal extends Modal {
+	private heading: string;
+	private value: string;
+	private placeholder: string;
+	private onSubmit: (name: string) => void;
+
+	constructor(app: App, heading: string, value: string, placeholder: string, onSubmit: (name: string) => void) {
+		super(app);
+		this.heading = heading;
+		this.value = value;
+		this.placeholder = placeholder;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.titleEl.setText(this.heading);
+		let name = this.value;
+		const submit = () => {
+			this.close();
+			this.onSubmit(name.trim());
+		};
+
+		new Setting(this.contentEl)
+			.setDesc("Leave empty to use the title set by the program.")
+			.addText((text) => {
+				text.setValue(name).setPlaceholder(this.placeholder).onChange((value) => (name = value));
+				text.inputEl.addEventListener("keydown", (e) => {
+					if (e.key === "Enter") {
+						e.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.select(), 0);
+			})
+			.addButton((button) => button.setButtonText("Rename").setCta().onClick(submit));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,50 @@
+/**
+ * Helpers for building sets of notes to hand to Claude (by tag, folder or
+ * search) and for describing large sets in a manifest note.
+ */
+
+/** Lower-cased tag with a leading # */
+export function normalizeTag(tag: string): string {
+	const trimmed = tag.trim().toLowerCase();
+	return trimmed.startsWith("#") ? trimmed : `#${trimmed}`;
+}
+
+/** Whether any of a file's tags is `tag` or nested under it (#a matches #a/b) */
+export function hasTag(fileTags: string[], tag: string): boolean {
+	const wanted = normalizeTag(tag);
+	return fileTags.some((t) => {
+		const normalized = normalizeTag(t);
+		return normalized === wanted || normalized.startsWith(wanted + "/");
+	});
+}
+
+/** Count how many files use each tag, most used first */
+export function countTags(tagsPerFile: string[][]): [string, number][] {
+	const counts = new Map<string, number>();
+	for (const tags of tagsPerFile) {
+		for (const tag of new Set(tags.map(normalizeTag))) {
+			counts.set(tag, (counts.get(tag) ?? 0) + 1);
+		}
+	}
+	return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/** Safe file name for a manifest note, e.g. "2025-01-02 0304 tag project-alpha" */
+export function manifestName(description: string, date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}`;
+	const slug = description.replace(/[\\/:*?"<>|#^[\]]+/g, "-").replace(/\s+/g, " ").trim();
+	return `${stamp} ${slug}`.trim();
+}
+
+/** Manifest note listing every path, one per line, for Claude to read */
+export function formatManifest(description: string, paths: string[]): string {
+	return [
+		`# Context: ${description}`,
+		"",
+		`${paths.length} files, paths relative to the vault root:`,
+		"",
+		...paths.map((p) => `- ${p}`),
+		"",
+	].join("\n");
+}
@@ -0,0 +1,91 @@
+import type { ProcessStatus } from "./process-status";
+
+export interface ExitBannerActions {
+	restart: () => void;
+	/** Omitted when there is no shell profile to switch to */
+	openShell?: () => void;
+	close: () => void;
+}
+
+/**
+ * Inline banner shown over the bottom of a terminal whose process has
+ * exited, with the exit code and buttons to restart, switch to a shell or
+ * close the pane. Optionally counts down to an automatic restart.
+ */
+export class ExitBanner {
+	private containerEl: HTMLElement;
+	private messageEl: HTMLElement;
+	private countdownEl: HTMLElement;
+	private countdownTimer: number | null = null;
+
+	constructor(parentEl: HTMLElement) {
+		this.containerEl = parentEl.createDiv({ cls: "claude-terminal-exit-banner" });
+		this.containerEl.hide();
+		this.messageEl = this.containerEl.createSpan({ cls: "claude-terminal-exit-message" });
+		this.countdownEl = this.containerEl.createSpan({ cls: "claude-terminal-exit-countdown" });
+	}
+
+	get isShown(): boolean {
+		return this.containerEl.isShown();
+	}
+
+	/**
+	 * Show the banner for an exited process. With `autoRestart`, a countdown
+	 * is displayed and its callback runs when it reaches zero.
+	 */
+	show(status: ProcessStatus, actions: ExitBannerActions, autoRestart?: { delay: number; run: () => void }) {
+		this.clearCountdown();
+		this.messageEl.setText(status.signal
+			? `Process exited (signal ${status.signal})`
+			: `Process exited with code ${status.exitCode ?? 0}`);
+		this.messageEl.setAttr("title", "Press Enter in the terminal to restart");
+		this.containerEl.toggleClass("is-failure", status.exitCode !== 0 || !!status.signal);
+
+		this.containerEl.querySelectorAll("button").forEach((button) => button.remove());
+		this.addButton("Restart", actions.restart, true);
+		if (actions.openShell) this.addButton("Open shell", actions.openShell);
+		this.addButton("Close", actions.close);
+
+		if (autoRestart) this.startCountdown(autoRestart.delay, autoRestart.run);
+		this.containerEl.show();
+	}
+
+	hide() {
+		this.clearCountdown();
+		this.containerEl.hide();
+	}
+
+	dispose() {
+		this.clearCountdown();
+		this.containerEl.remove();
+	}
+
+	private addButton(text: string, onClick: () => void, cta = false) {
+		const button = this.containerEl.createEl("button", { text, cls: cta ? "mod-cta" : undefined });
+		button.addEventListener("click", (e) => {
+			e.preventDefault();
+			onClick();
+		});
+	}
+
+	private startCountdown(ms: number, onDone: () => void) {
+		const deadline = Date.now() + ms;
+		const tick = () => {
+			const remaining = deadline - Date.now();
+			if (remaining <= 0) {
+				this.clearCountdown();
+				onDone();
+				return;
+			}
+			this.countdownEl.setText(`Restarting in ${Math.ceil(remaining / 1000)}s…`);
+		};
+		tick();
+		this.countdownTimer = window.setInterval(tick, 250);
+	}
+
+	private clearCountdown() {
+		if (this.countdownTimer !== null) window.clearInterval(this.countdownTimer);
+		this.countdownTimer = null;
+		this.countdownEl.setText("");
+	}
+}
@@ -0,0 +1,87 @@
+import { App, Notice, SuggestModal, TFile, normalizePath } from "obsidian";
+import type { TerminalPane, BufferScope } from "./terminal-pane";
+import {
+	tidyTerminalText,
+	formatExportNote,
+	formatExportSection,
+	formatLocalDateTime,
+	ExportMetadata,
+} from "./terminal-text";
+
+/** Either an existing note to append to, or the path of a note to create */
+type ExportTarget = TFile | string;
+
+/**
+ * Pick the note to export into. Typing a name that doesn't match an
+ * existing note offers to create it.
+ */
+class ExportTargetModal extends SuggestModal<ExportTarget> {
+	private onPick: (target: ExportTarget) => void;
+
+	constructor(app: App, defaultName: string, onPick: (target: ExportTarget) => void) {
+		super(app);
+		this.onPick = onPick;
+		this.setPlaceholder("Note to export into (type a new name to create one)");
+		this.inputEl.value = defaultName;
+	}
+
+	getSuggestions(query: string): ExportTarget[] {
+		const q = query.trim().toLowerCase();
+		const files = this.app.vault.getMarkdownFiles()
+			.filter((f) => f.path.toLowerCase().includes(q))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime)
+			.slice(0, 50);
+
+		const newPath = q ? normalizePath(query.trim().replace(/\.md$/i, "") + ".md") : "";
+		const exists = files.some((f) => f.path.toLowerCase() === newPath.toLowerCase());
+		return newPath && !exists ? [newPath, ...files] : files;
+	}
+
+	renderSuggestion(target: ExportTarget, el: HTMLElement) {
+		if (target instanceof TFile) {
+			el.setText(target.path);
+		} else {
+			el.setText(`Create new note: ${target}`);
+		}
+	}
+
+	onChooseSuggestion(target: ExportTarget) {
+		this.onPick(target);
+	}
+}
+
+/**
+ * Capture text from a terminal, clean it up, and write it into a new or
+ * existing note chosen by the user.
+ */
+export function exportTerminalToNote(app: App, pane: TerminalPane, scope: BufferScope) {
+	const raw = pane.getBufferText(scope);
+	const body = raw ? tidyTerminalText(raw) : "";
+	if (!body) {
+		new Notice(scope === "selection" ? "Nothing selected in the terminal." : "The terminal is empty.");
+		return;
+	}
+
+	const meta: ExportMetadata = {
+		date: new Date(),
+		profile: pane.profile.name,
+		cwd: pane.workingDirectory ?? "",
+	};
+	const defaultName = `Claude export ${formatLocalDateTime(meta.date).replace("T", " ").replace(":", "")}`;
+
+	new ExportTargetModal(app, defaultName, async (target) => {
+		try {
+			let file: TFile;
+			if (target instanceof TFile) {
+				await app.vault.append(target, formatExportSection(body, meta));
+				file = target;
+			} else {
+				file = await app.vault.create(target, formatExportNote(body, meta));
+			}
+			await app.workspace.getLeaf("tab").openFile(file);
+		} catch (err) {
+			console.error("obsidian-shell: export failed", err);
+			new Notice(`Export failed: ${err instanceof Error ? err.message : err}`);
+		}
+	}).open();
+}
@@ -0,0 +1,80 @@
+import { App, Modal, Setting } from "obsidian";
+
+export interface ChecklistItem {
+	path: string;
+	/** Short note shown next to the path, e.g. how the file was found */
+	detail?: string;
+	checked?: boolean;
+}
+
+/**
+ * Modal listing files with checkboxes so the user can prune a set before
+ * it's sent to Claude. Calls `onSubmit` with the checked paths.
+ */
+export class FileChecklistModal extends Modal {
+	private items: ChecklistItem[];
+	private heading: string;
+	private onSubmit: (paths: string[]) => void;
+	private checked: Set<string>;
+
+	constructor(app: App, heading: string, items: ChecklistItem[], onSubmit: (paths: string[]) => void) {
+		super(app);
+		this.heading = heading;
+		this.items = items;
+		this.onSubmit = onSubmit;
+		this.checked = new Set(items.filter((i) => i.checked !== false).map((i) => i.path));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(this.heading);
+		contentEl.addClass("claude-checklist-modal");
+
+		let submitButton: HTMLButtonElement | null = null;
+		const updateButton = () => submitButton?.setText(`Add ${this.checked.size} note${this.checked.size === 1 ? "" : "s"}`);
+
+		const listEl = contentEl.createDiv({ cls: "claude-checklist" });
+		const checkboxes: HTMLInputElement[] = [];
+		for (const item of this.items) {
+			const row = listEl.createEl("label", { cls: "claude-checklist-item" });
+			const checkbox = row.createEl("input", { attr: { type: "checkbox" } });
+			checkbox.checked = this.checked.has(item.path);
+			checkbox.addEventListener("change", () => {
+				if (checkbox.checked) this.checked.add(item.path);
+				else this.checked.delete(item.path);
+				updateButton();
+			});
+			checkboxes.push(checkbox);
+			row.createSpan({ cls: "claude-checklist-path", text: item.path });
+			if (item.detail) row.createSpan({ cls: "claude-checklist-detail", text: item.detail });
+		}
+
+		const setAll = (value: boolean) => {
+			checkboxes.forEach((cb, i) => {
+				cb.checked = value;
+				if (value) this.checked.add(this.items[i].path);
+				else this.checked.delete(this.items[i].path);
+			});
+			updateButton();
+		};
+
+		new Setting(contentEl)
+			.addButton((button) => button.setButtonText("Select all").onClick(() => setAll(true)))
+			.addButton((button) => button.setButtonText("Select none").onClick(() => setAll(false)))
+			.addButton((button) => {
+				submitButton = button.buttonEl;
+				button
+					.setCta()
+					.onClick(() => {
+						const paths = this.items.map((i) => i.path).filter((p) => this.checked.has(p));
+						this.close();
+						if (paths.length > 0) this.onSubmit(paths);
+					});
+			});
+		updateButton();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,147 @@
+import { setIcon } from "obsidian";
+import type { Terminal, IDisposable } from "@xterm/xterm";
+import { SearchAddon, ISearchOptions } from "@xterm/addon-search";
+
+const HIGHLIGHT_LIMIT = 2000;
+
+// Decoration colors must be #RRGGBB — xterm doesn't resolve CSS variables
+const DECORATIONS = {
+	matchBackground: "#6b5d1f",
+	matchOverviewRuler: "#c8a32a",
+	activeMatchBackground: "#d08b24",
+	activeMatchColorOverviewRuler: "#ff9f1a",
+};
+
+/**
+ * Find overlay for a terminal: search input, case / regex / whole-word
+ * toggles, match counter and next/previous buttons. Matches are highlighted
+ * across the whole scrollback by the xterm search addon.
+ */
+export class FindBar {
+	private terminal: Terminal;
+	private searchAddon: SearchAddon;
+	private resultsDisposable: IDisposable;
+	private containerEl: HTMLElement;
+	private inputEl: HTMLInputElement;
+	private countEl: HTMLElement;
+	private options = { caseSensitive: false, regex: false, wholeWord: false };
+
+	constructor(parentEl: HTMLElement, terminal: Terminal) {
+		this.terminal = terminal;
+		this.searchAddon = new SearchAddon({ highlightLimit: HIGHLIGHT_LIMIT });
+		terminal.loadAddon(this.searchAddon);
+
+		this.containerEl = parentEl.createDiv({ cls: "claude-terminal-find" });
+		this.containerEl.hide();
+
+		this.inputEl = this.containerEl.createEl("input", {
+			cls: "claude-terminal-find-input",
+			attr: { type: "text", placeholder: "Find", spellcheck: "false" },
+		});
+		this.inputEl.addEventListener("input", () => this.find(true, true));
+		this.inputEl.addEventListener("keydown", (e) => {
+			if (e.key === "Enter") {
+				e.preventDefault();
+				this.find(!e.shiftKey);
+			} else if (e.key === "Escape") {
+				e.preventDefault();
+				this.close();
+			}
+		});
+
+		this.addToggle("caseSensitive", "case-sensitive", "Match case");
+		this.addToggle("regex", "regex", "Use regular expression");
+		this.addToggle("wholeWord", "whole-word", "Match whole word");
+
+		this.countEl = this.containerEl.createDiv({ cls: "claude-terminal-find-count" });
+
+		this.addButton("arrow-up", "Previous match (Shift+Enter)", () => this.find(false));
+		this.addButton("arrow-down", "Next match (Enter)", () => this.find(true));
+		this.addButton("x", "Close (Escape)", () => this.close());
+
+		this.resultsDisposable = this.searchAddon.onDidChangeResults(({ resultIndex, resultCount }) => {
+			this.updateCount(resultIndex, resultCount);
+		});
+	}
+
+	get isOpen(): boolean {
+		return this.containerEl.isShown();
+	}
+
+	open() {
+		this.containerEl.show();
+		// Seed the query with the current terminal selection, like editors do
+		const selection = this.terminal.getSelection();
+		if (selection && !selection.includes("\n")) this.inputEl.value = selection;
+		this.inputEl.focus();
+		this.inputEl.select();
+		if (this.inputEl.value) this.find(true, true);
+	}
+
+	close() {
+		this.containerEl.hide();
+		this.searchAddon.clearDecorations();
+		this.terminal.clearSelection();
+		this.terminal.focus();
+	}
+
+	dispose() {
+		this.resultsDisposable.dispose();
+		this.searchAddon.dispose();
+		this.containerEl.remove();
+	}
+
+	private find(forward: boolean, incremental = false) {
+		const term = this.inputEl.value;
+		if (!term) {
+			this.searchAddon.clearDecorations();
+			this.countEl.setText("");
+			this.inputEl.removeClass("is-invalid");
+			return;
+		}
+
+		const options: ISearchOptions = { ...this.options, incremental, decorations: DECORATIONS };
+		try {
+			if (forward) {
+				this.searchAddon.findNext(term, options);
+			} else {
+				this.searchAddon.findPrevious(term, options);
+			}
+			this.inputEl.removeClass("is-invalid");
+		} catch {
+			// Invalid regular expression while the user is still typing
+			this.searchAddon.clearDecorations();
+			this.inputEl.addClass("is-invalid");
+			this.countEl.setText("Invalid");
+		}
+	}
+
+	private updateCount(resultIndex: number, resultCount: number) {
+		if (resultCount === 0) {
+			this.countEl.setText("No results");
+		} else if (resultCount === -1 || resultCount >= HIGHLIGHT_LIMIT) {
+			// The addon stops counting at the highlight limit
+			this.countEl.setText(`${HIGHLIGHT_LIMIT}+`);
+		} else {
+			this.countEl.setText(`${resultIndex + 1} of ${resultCount}`);
+		}
+	}
+
+	private addToggle(key: keyof FindBar["options"], icon: string, label: string) {
+		const button = this.addButton(icon, label, () => {
+			this.options[key] = !this.options[key];
+			button.toggleClass("is-active", this.options[key]);
+			this.find(true, true);
+		});
+	}
+
+	private addButton(icon: string, label: string, onClick: () => void): HTMLElement {
+		const button = this.containerEl.createDiv({
+			cls: "clickable-icon claude-terminal-find-button",
+			attr: { "aria-label": label },
+		});
+		setIcon(button, icon);
+		button.addEventListener("click", onClick);
+		return button;
+	}
+}
@@ -0,0 +1,125 @@
+import type { Modifier } from "obsidian";
+import type { KeyBinding } from "./constants";
+
+/**
+ * Key combinations written the way Obsidian shows hotkeys ("Mod+Shift+K"),
+ * matched against keyboard events. `Mod` is Cmd on macOS and Ctrl elsewhere.
+ */
+
+export interface KeyCombo {
+	modifiers: Modifier[];
+	/** `KeyboardEvent.key`, lowercased for single characters */
+	key: string;
+}
+
+type KeyEventLike = Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey"> & { code?: string };
+
+const MODIFIER_NAMES: Record<string, Modifier> = {
+	mod: "Mod",
+	ctrl: "Ctrl",
+	control: "Ctrl",
+	cmd: "Meta",
+	meta: "Meta",
+	alt: "Alt",
+	option: "Alt",
+	shift: "Shift",
+};
+
+const NAMED_KEYS = [
+	"Enter", "Tab", "Backspace", "Escape", "Delete", "Insert", "Home", "End", "PageUp", "PageDown",
+	"ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight",
+];
+
+/** Lowercased names (and short forms) to `KeyboardEvent.key` values */
+const KEY_ALIASES: Record<string, string> = {
+	...Object.fromEntries(NAMED_KEYS.map((name) => [name.toLowerCase(), name])),
+	space: " ",
+	esc: "Escape",
+	up: "ArrowUp",
+	down: "ArrowDown",
+	left: "ArrowLeft",
+	right: "ArrowRight",
+	del: "Delete",
+};
+
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Alt", "Shift", "AltGraph", "CapsLock"]);
+
+function normalizeKey(key: string): string {
+	const alias = KEY_ALIASES[key.toLowerCase()];
+	if (alias) return alias;
+	if (/^f\d{1,2}$/i.test(key)) return key.toUpperCase();
+	return key.length === 1 ? key.toLowerCase() : key;
+}
+
+/** Parse "Mod+Shift+K"; null if there is no key or a modifier is unknown */
+export function parseKeyCombo(text: string): KeyCombo | null {
+	const parts = text.split("+").map((part) => part.trim());
+	// "Mod++" means the plus key
+	if (parts.length > 1 && parts[parts.length - 1] === "" && parts[parts.length - 2] === "") {
+		parts.splice(-2, 2, "+");
+	}
+	const key = parts.pop();
+	if (!key) return null;
+
+	const modifiers: Modifier[] = [];
+	for (const part of parts) {
+		const modifier = MODIFIER_NAMES[part.toLowerCase()];
+		if (!modifier) return null;
+		if (!modifiers.includes(modifier)) modifiers.push(modifier);
+	}
+	return { modifiers, key: normalizeKey(key) };
+}
+
+/** Whether `event` is exactly `combo` (no extra modifiers) */
+export function matchesKeyCombo(combo: KeyCombo, event: KeyEventLike, isMac: boolean): boolean {
+	const has = (modifier: Modifier) => combo.modifiers.includes(modifier);
+	const ctrl = has("Ctrl") || (has("Mod") && !isMac);
+	const meta = has("Meta") || (has("Mod") && isMac);
+	if (event.ctrlKey !== ctrl || event.metaKey !== meta) return false;
+	if (event.altKey !== has("Alt") || event.shiftKey !== has("Shift")) return false;
+	if (normalizeKey(event.key) === combo.key) return true;
+	// Option on macOS changes the character (Option+K types "˚"), so fall back to the physical key
+	const physical = /^(?:Key|Digit)(.)$/.exec(event.code ?? "");
+	return !!physical && physical[1].toLowerCase() === combo.key;
+}
+
+/** The first binding matching `event`, ignoring bindings that don't parse */
+export function findKeyBinding(bindings: KeyBinding[], event: KeyEventLike, isMac: boolean): KeyBinding | null {
+	for (const binding of bindings) {
+		const combo = parseKeyCombo(binding.key);
+		if (combo && matchesKeyCombo(combo, event, isMac)) return binding;
+	}
+	return null;
+}
+
+/** Describe a key press as a combination ("Mod+Shift+K"); null for a bare modifier press */
+export function formatKeyEvent(event: KeyEventLike, isMac: boolean): string | null {
+	if (MODIFIER_KEYS.has(event.key)) return null;
+	const parts: string[] = [];
+	if (isMac ? event.metaKey : event.ctrlKey) parts.push("Mod");
+	if (isMac ? event.ctrlKey : event.metaKey) parts.push(isMac ? "Ctrl" : "Meta");
+	if (event.altKey) parts.push("Alt");
+	if (event.shiftKey) parts.push("Shift");
+	const key = event.key === " " ? "Space" : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+	parts.push(key);
+	return parts.join("+");
+}
+
+/**
+ * Turn the escaped text of a "send" binding into the bytes to write:
+ * \n \r \t \e \\ \xHH and \uHHHH. Unknown escapes are kept as written.
+ */
+export function decodeKeySequence(text: string): string {
+	return text.replace(/\\(?:x([0-9a-fA-F]{2})|u([0-9a-fA-F]{4})|(.))/g, (match, hex, unicode, ch) => {
+		if (hex) return String.fromCharCode(parseInt(hex, 16));
+		if (unicode) return String.fromCharCode(parseInt(unicode, 16));
+		switch (ch) {
+			case "n": return "\n";
+			case "r": return "\r";
+			case "t": return "\t";
+			case "e": return "\x1b";
+			case "\\": return "\\";
+			default: return match;
+		}
+	});
+}
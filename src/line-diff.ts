@@ -0,0 +1,137 @@
+/**
+ * Line-based diff for reviewing note changes: an edit script, hunks with
+ * context, and reverting a single hunk.
+ */
+
+export type DiffOp =
+	| { type: "equal"; text: string }
+	| { type: "delete"; text: string }
+	| { type: "insert"; text: string };
+
+export interface DiffHunk {
+	/** Index of the first op in the hunk (including leading context) */
+	start: number;
+	/** Index just past the last op in the hunk */
+	end: number;
+	/** 1-based first line on each side, as in a unified diff header */
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+}
+
+// Above this many cells the LCS table is skipped and the changed middle is
+// shown as one replacement, to keep huge rewrites from stalling the UI
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+	return text === "" ? [] : text.split("\n");
+}
+
+/** Line edit script turning `oldText` into `newText` */
+export function diffLines(oldText: string, newText: string): DiffOp[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix && suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) suffix++;
+
+	const ops: DiffOp[] = a.slice(0, prefix).map((text) => ({ type: "equal", text }));
+	ops.push(...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)));
+	ops.push(...a.slice(a.length - suffix).map((text): DiffOp => ({ type: "equal", text })));
+	return ops;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffOp[] {
+	const del = (text: string): DiffOp => ({ type: "delete", text });
+	const ins = (text: string): DiffOp => ({ type: "insert", text });
+	if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+		return [...a.map(del), ...b.map(ins)];
+	}
+
+	// lcs[i][j] = length of the LCS of a[i..] and b[j..]
+	const width = b.length + 1;
+	const lcs = new Uint32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i * width + j] = a[i] === b[j]
+				? lcs[(i + 1) * width + j + 1] + 1
+				: Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+		}
+	}
+
+	const ops: DiffOp[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			ops.push({ type: "equal", text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+			ops.push(del(a[i++]));
+		} else {
+			ops.push(ins(b[j++]));
+		}
+	}
+	while (i < a.length) ops.push(del(a[i++]));
+	while (j < b.length) ops.push(ins(b[j++]));
+	return ops;
+}
+
+/** Group changed ops into hunks with `context` unchanged lines around them */
+export function buildHunks(ops: DiffOp[], context = 3): DiffHunk[] {
+	const ranges: { start: number; end: number }[] = [];
+	for (let index = 0; index < ops.length; index++) {
+		if (ops[index].type === "equal") continue;
+		const start = Math.max(0, index - context);
+		const end = Math.min(ops.length, index + 1 + context);
+		const last = ranges[ranges.length - 1];
+		if (last && start <= last.end) last.end = end;
+		else ranges.push({ start, end });
+	}
+	return ranges.map(({ start, end }) => describeHunk(ops, start, end));
+}
+
+function describeHunk(ops: DiffOp[], start: number, end: number): DiffHunk {
+	let oldLine = 1;
+	let newLine = 1;
+	for (let i = 0; i < start; i++) {
+		if (ops[i].type !== "insert") oldLine++;
+		if (ops[i].type !== "delete") newLine++;
+	}
+	let oldLines = 0;
+	let newLines = 0;
+	for (let i = start; i < end; i++) {
+		if (ops[i].type !== "insert") oldLines++;
+		if (ops[i].type !== "delete") newLines++;
+	}
+	return { start, end, oldStart: oldLine, oldLines, newStart: newLine, newLines };
+}
+
+/** The new text with one hunk's changes undone and every other change kept */
+export function revertHunk(ops: DiffOp[], hunk: DiffHunk): string {
+	const lines: string[] = [];
+	ops.forEach((op, index) => {
+		const inHunk = index >= hunk.start && index < hunk.end;
+		if (op.type === "equal") lines.push(op.text);
+		else if (op.type === (inHunk ? "delete" : "insert")) lines.push(op.text);
+	});
+	return lines.join("\n");
+}
+
+/**
+ * The hunk of `ops` made of the same lines as `shown` (the ops of a hunk
+ * from an earlier diff), or null if the text has changed around it since.
+ */
+export function findHunk(ops: DiffOp[], shown: DiffOp[]): DiffHunk | null {
+	const matches = (hunk: DiffHunk) =>
+		hunk.end - hunk.start === shown.length &&
+		shown.every((op, i) => op.type === ops[hunk.start + i].type && op.text === ops[hunk.start + i].text);
+	return buildHunks(ops).find(matches) ?? null;
+}
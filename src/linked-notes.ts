@@ -0,0 +1,57 @@
+/** Link graph in the shape of `metadataCache.resolvedLinks`: source → destination → count */
+export type ResolvedLinks = Record<string, Record<string, number>>;
+
+export interface LinkedNote {
+	path: string;
+	/** Number of hops from the starting note (0 for the note itself) */
+	depth: number;
+	/** How the note was reached on its first (shortest) path */
+	via: "start" | "link" | "backlink";
+}
+
+export interface CollectOptions {
+	depth: number;
+	backlinks: boolean;
+	maxFiles: number;
+}
+
+/**
+ * Walk the link graph outward from `start` breadth-first, following
+ * outgoing links (and incoming ones if `backlinks` is set) up to `depth`
+ * hops. Stops once `maxFiles` notes have been collected; nearer notes win.
+ */
+export function collectLinkedNotes(start: string, links: ResolvedLinks, options: CollectOptions): LinkedNote[] {
+	const backlinks = options.backlinks ? invertLinks(links) : {};
+	const result: LinkedNote[] = [{ path: start, depth: 0, via: "start" }];
+	const seen = new Set([start]);
+	let frontier = [start];
+
+	for (let depth = 1; depth <= options.depth && frontier.length > 0; depth++) {
+		const next: string[] = [];
+		for (const path of frontier) {
+			const neighbours: [string, LinkedNote["via"]][] = [
+				...Object.keys(links[path] ?? {}).sort().map((p): [string, "link"] => [p, "link"]),
+				...Object.keys(backlinks[path] ?? {}).sort().map((p): [string, "backlink"] => [p, "backlink"]),
+			];
+			for (const [neighbour, via] of neighbours) {
+				if (seen.has(neighbour)) continue;
+				if (result.length >= options.maxFiles) return result;
+				seen.add(neighbour);
+				result.push({ path: neighbour, depth, via });
+				next.push(neighbour);
+			}
+		}
+		frontier = next;
+	}
+	return result;
+}
+
+function invertLinks(links: ResolvedLinks): ResolvedLinks {
+	const inverted: ResolvedLinks = {};
+	for (const [source, dests] of Object.entries(links)) {
+		for (const [dest, count] of Object.entries(dests)) {
+			(inverted[dest] ??= {})[source] = count;
+		}
+	}
+	return inverted;
+}
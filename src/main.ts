@@ -1,8 +1,44 @@
-import { Plugin, WorkspaceLeaf, TFile, MarkdownView, Editor, Menu } from "obsidian";
-import { VIEW_TYPE_TERMINAL, DEFAULT_SETTINGS, ClaudeTerminalSettings } from "./constants";
-import { TerminalView } from "./terminal-view";
+import {
+	Plugin,
+	WorkspaceLeaf,
+	TFile,
+	TFolder,
+	Vault,
+	MarkdownView,
+	Editor,
+	Menu,
+	Notice,
+	getAllTags,
+	normalizePath,
+	prepareSimpleSearch,
+	resolveSubpath,
+} from "obsidian";
+import { VIEW_TYPE_TERMINAL, VIEW_TYPE_CHANGES, DEFAULT_SETTINGS, ClaudeTerminalSettings, CustomAction } from "./constants";
+import { TerminalView, TerminalViewState, BufferScope } from "./terminal-view";
+import type { SplitDirection } from "./pane-layout";
 import { ClaudeTerminalSettingTab } from "./settings";
 import { resolveUserPath } from "./pty-manager";
+import { migrateLegacySettings, normalizeProfile, findClaudeProfile, resolveProfileCwd } from "./profiles";
+import { listClaudeSessions } from "./claude-sessions";
+import { SessionPickerModal } from "./session-picker";
+import { exportTerminalToNote } from "./export-note";
+import { renderTemplate, TemplateContext } from "./templates";
+import { findHeadingSection, findBlock, trimTrailingBlankLines, LineRange } from "./note-sections";
+import { collectLinkedNotes } from "./linked-notes";
+import { FileChecklistModal } from "./file-checklist-modal";
+import { hasTag, countTags, manifestName, formatManifest } from "./context-sets";
+import { TagSuggestModal, FolderSuggestModal, QueryModal } from "./context-pickers";
+import { McpServer } from "./mcp-server";
+import { createVaultTools } from "./vault-tools";
+import { formatProcessStatus } from "./process-status";
+import { formatProgress, isActive } from "./terminal-progress";
+import { SessionChangeTracker } from "./session-changes";
+import { ChangesView } from "./changes-view";
+import { CheckpointStore } from "./checkpoints";
+import { CheckpointsModal } from "./checkpoints-modal";
+import { resolveTerminalTheme, normalizeThemeSettings } from "./terminal-theme";
+import { normalizeTypography } from "./terminal-typography";
+import type { ITheme } from "@xterm/xterm";
 
 const MAX_PASTE_LENGTH = 4000;
 
@@ -10,6 +46,12 @@ export default class ClaudeTerminalPlugin extends Plugin {
 	settings: ClaudeTerminalSettings = DEFAULT_SETTINGS;
 	private lastFocusedTerminal: TerminalView | null = null;
 	resolvedPath: string = "";
+	/** Local MCP server exposing vault metadata, if enabled and running */
+	mcpServer: McpServer | null = null;
+	private statusBarEl: HTMLElement | null = null;
+	/** Vault files changed while terminals are running, for the review panel */
+	changeTracker!: SessionChangeTracker;
+	checkpoints!: CheckpointStore;
 
 	/** Absolute path to this plugin's install directory */
 	get pluginDir(): string {
@@ -31,7 +73,20 @@ export default class ClaudeTerminalPlugin extends Plugin {
 			console.error("obsidian-shell: failed to resolve PATH", e);
 		}
 
+		if (this.settings.mcpServer) await this.startMcpServer();
+
+		this.changeTracker = new SessionChangeTracker(this.app.vault, () => this.settings.baselineSizeMB * 1024 * 1024);
+		this.checkpoints = new CheckpointStore(this.app.vault, `${this.manifest.dir}/checkpoints`);
+		this.registerEvent(this.changeTracker.on("file-changed", (path: string, before: string | null | undefined) => {
+			this.checkpoints.noteChange(path, before);
+		}));
+
 		this.registerView(VIEW_TYPE_TERMINAL, (leaf) => new TerminalView(leaf, this));
+		this.registerView(VIEW_TYPE_CHANGES, (leaf) => new ChangesView(leaf, this.changeTracker));
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("claude-terminal-status");
+		this.updateStatusBar();
 
 		// --- Commands ---
 
@@ -47,6 +102,42 @@ export default class ClaudeTerminalPlugin extends Plugin {
 			callback: () => this.openNewTerminal(),
 		});
 
+		this.addCommand({
+			id: "open-terminal-in-note-folder",
+			name: "Open terminal in current note's folder",
+			checkCallback: (checking: boolean) => {
+				const folder = this.app.workspace.getActiveFile()?.parent;
+				if (!folder) return false;
+				if (!checking) this.openTerminalIn(folder);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "resume-claude-session",
+			name: "Resume Claude session",
+			callback: () => this.pickClaudeSession(),
+		});
+
+		this.addCommand({
+			id: "review-session-changes",
+			name: "Review session changes",
+			callback: () => this.openChangesView(),
+		});
+
+		this.addCommand({
+			id: "show-checkpoints",
+			name: "Show checkpoints",
+			callback: () => new CheckpointsModal(this.app, this.checkpoints).open(),
+		});
+
+		for (const profile of this.settings.profiles) {
+			this.addCommand({
+				id: `open-profile-${profile.id}`,
+				name: `Open terminal: ${profile.name}`,
+				callback: () => this.openNewTerminal({ profileId: profile.id }),
+			});
+		}
 
 		this.addCommand({
 			id: "add-current-note",
@@ -58,6 +149,35 @@ export default class ClaudeTerminalPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "add-note-with-links",
+			name: "Add current note with linked notes to Claude",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) return false;
+				if (!checking) this.addNoteWithLinks(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "add-notes-by-tag",
+			name: "Add notes with tag to Claude",
+			callback: () => this.pickTag(),
+		});
+
+		this.addCommand({
+			id: "add-folder",
+			name: "Add folder to Claude",
+			callback: () => new FolderSuggestModal(this.app, (folder) => this.addFolder(folder)).open(),
+		});
+
+		this.addCommand({
+			id: "add-search-results",
+			name: "Add notes matching search to Claude",
+			callback: () => new QueryModal(this.app, "Add notes matching search", (query) => this.addSearchResults(query)).open(),
+		});
+
 		this.addCommand({
 			id: "send-selection",
 			name: "Send selection to Claude",
@@ -79,6 +199,22 @@ export default class ClaudeTerminalPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "send-current-section",
+			name: "Send current section to Claude",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (view.file) this.sendCurrentSection(editor, view.file);
+			},
+		});
+
+		this.addCommand({
+			id: "send-current-block",
+			name: "Send current block to Claude",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (view.file) this.sendCurrentBlock(editor, view.file);
+			},
+		});
+
 		this.addCommand({
 			id: "add-all-open-notes",
 			name: "Add all open notes to Claude",
@@ -93,6 +229,96 @@ export default class ClaudeTerminalPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "find-in-terminal",
+			name: "Find in terminal",
+			checkCallback: (checking: boolean) => {
+				const view = this.getTerminalView();
+				if (!view) return false;
+				if (!checking) {
+					this.activateView();
+					view.openFind();
+				}
+				return true;
+			},
+		});
+
+		const splitCommands: [SplitDirection, string, string][] = [
+			["vertical", "split-terminal-right", "Split terminal right"],
+			["horizontal", "split-terminal-down", "Split terminal down"],
+		];
+		for (const [direction, id, name] of splitCommands) {
+			this.addCommand({
+				id,
+				name,
+				checkCallback: (checking: boolean) => {
+					const view = this.getTerminalView();
+					if (!view?.pane) return false;
+					if (!checking) view.splitPane(view.pane, direction);
+					return true;
+				},
+			});
+		}
+
+		this.addCommand({
+			id: "close-terminal-pane",
+			name: "Close terminal pane",
+			checkCallback: (checking: boolean) => {
+				const view = this.getTerminalView();
+				if (!view?.pane) return false;
+				if (!checking) view.closePane(view.pane);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "rename-terminal",
+			name: "Rename terminal",
+			checkCallback: (checking: boolean) => {
+				const view = this.getTerminalView();
+				if (!view?.pane) return false;
+				if (!checking) view.renamePane(view.pane);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "focus-next-terminal-pane",
+			name: "Focus next terminal pane",
+			checkCallback: (checking: boolean) => {
+				const view = this.getTerminalView();
+				if (!view || view.panes.length < 2) return false;
+				if (!checking) view.focusNextPane();
+				return true;
+			},
+		});
+
+		const exportCommands: [BufferScope, string, string][] = [
+			["scrollback", "export-scrollback", "Export terminal scrollback to note"],
+			["screen", "export-screen", "Export visible terminal screen to note"],
+			["selection", "export-selection", "Export terminal selection to note"],
+		];
+		for (const [scope, id, name] of exportCommands) {
+			this.addCommand({
+				id,
+				name,
+				checkCallback: (checking: boolean) => {
+					const pane = this.getTerminalView()?.pane;
+					if (!pane) return false;
+					if (!checking) exportTerminalToNote(this.app, pane, scope);
+					return true;
+				},
+			});
+		}
+
+		for (const action of this.settings.customActions) {
+			this.addCommand({
+				id: `custom-action-${action.id}`,
+				name: action.name,
+				callback: () => this.runCustomAction(action),
+			});
+		}
+
 		this.addCommand({
 			id: "restart-session",
 			name: "Restart session",
@@ -104,12 +330,39 @@ export default class ClaudeTerminalPlugin extends Plugin {
 		// File explorer context menu
 		this.registerEvent(
 			this.app.workspace.on("file-menu", (menu: Menu, file) => {
+				if (file instanceof TFolder) {
+					menu.addItem((item) => {
+						item.setTitle("Open terminal here")
+							.setIcon("terminal-square")
+							.onClick(() => this.openTerminalIn(file));
+					});
+					menu.addItem((item) => {
+						item.setTitle("Add folder to Claude")
+							.setIcon("sparkles")
+							.onClick(() => this.addFolder(file));
+					});
+					return;
+				}
 				if (!(file instanceof TFile)) return;
 				menu.addItem((item) => {
 					item.setTitle("Add to Claude")
 						.setIcon("sparkles")
 						.onClick(() => this.addFiles([file.path]));
 				});
+				if (file.extension === "md") {
+					menu.addItem((item) => {
+						item.setTitle("Add with linked notes to Claude")
+							.setIcon("git-fork")
+							.onClick(() => this.addNoteWithLinks(file));
+					});
+				}
+				for (const action of this.settings.customActions) {
+					menu.addItem((item) => {
+						item.setTitle(action.name)
+							.setIcon("sparkles")
+							.onClick(() => this.runCustomAction(action, file.path));
+					});
+				}
 			}),
 		);
 
@@ -146,6 +399,13 @@ export default class ClaudeTerminalPlugin extends Plugin {
 
 		this.addRibbonIcon("sparkles", "Claude Shell", () => this.activateView());
 
+		for (const profile of this.settings.profiles) {
+			if (!profile.showInRibbon) continue;
+			this.addRibbonIcon(profile.icon || "sparkles", `Open terminal: ${profile.name}`, () =>
+				this.openNewTerminal({ profileId: profile.id }),
+			);
+		}
+
 		this.addSettingTab(new ClaudeTerminalSettingTab(this.app, this));
 
 		// Clear stale last-focused reference when layout changes
@@ -157,12 +417,74 @@ export default class ClaudeTerminalPlugin extends Plugin {
 						this.lastFocusedTerminal = null;
 					}
 				}
+				this.updateStatusBar();
 			}),
 		);
+
+		// Follow Obsidian's theme, light/dark mode and monospace font
+		this.registerEvent(this.app.workspace.on("css-change", () => this.applySettings()));
 	}
 
 	async onunload() {
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_TERMINAL);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_CHANGES);
+		this.stopMcpServer();
+		await this.checkpoints.flush();
+	}
+
+	/** Start the MCP server. Failure is logged, not fatal — terminals just launch without it. */
+	async startMcpServer() {
+		if (this.mcpServer) return;
+		const server = new McpServer(createVaultTools(this.app), {
+			name: "obsidian-shell",
+			version: this.manifest.version,
+		});
+		try {
+			await server.start();
+			this.mcpServer = server;
+		} catch (e) {
+			console.error("obsidian-shell: failed to start MCP server", e);
+		}
+	}
+
+	stopMcpServer() {
+		this.mcpServer?.stop();
+		this.mcpServer = null;
+	}
+
+	/**
+	 * Show one entry per open terminal pane with its process state. Clicking
+	 * an entry reveals and focuses that pane.
+	 */
+	updateStatusBar() {
+		const el = this.statusBarEl;
+		if (!el) return;
+		el.empty();
+
+		const panes = this.getTerminalViews().flatMap((view) => view.panes.map((pane) => ({ view, pane })));
+		el.toggle(panes.length > 0);
+
+		for (const { view, pane } of panes) {
+			const { status } = pane;
+			const { progress } = pane;
+			const label = isActive(progress)
+				? `${formatProcessStatus(status)} · ${formatProgress(progress)}`
+				: formatProcessStatus(status);
+			const item = el.createSpan({
+				cls: `claude-terminal-status-item is-${status.state}`,
+				text: `${pane.title}: ${label}`,
+				attr: { "aria-label": "Focus terminal" },
+			});
+			if (isActive(progress)) {
+				const track = item.createSpan({ cls: `claude-terminal-progress claude-terminal-status-progress is-${progress.state}` });
+				const bar = track.createSpan({ cls: "claude-terminal-progress-bar" });
+				if (progress.state !== "indeterminate") bar.style.width = `${progress.percent ?? 0}%`;
+			}
+			item.addEventListener("click", () => {
+				this.app.workspace.revealLeaf(view.leaf);
+				pane.focus();
+			});
+		}
 	}
 
 	// --- Core context methods ---
@@ -172,10 +494,10 @@ export default class ClaudeTerminalPlugin extends Plugin {
 	 * Claude Code uses @ mentions for file context, not /add.
 	 */
 	addFiles(paths: string[]) {
+		const { templates } = this.settings;
+		const template = paths.length === 1 ? templates.addNote : templates.addNotes;
+		const message = renderTemplate(template, { ...this.templateContext(paths[0]), paths });
 		this.ensureTerminal((view) => {
-			const message = paths.length === 1
-				? `Read @${paths[0]} `
-				: `Read these files: ${paths.map((p) => `@${p}`).join(" ")} `;
 			view.typeInTerminal(message);
 		});
 	}
@@ -187,17 +509,25 @@ export default class ClaudeTerminalPlugin extends Plugin {
 	sendSelection(text: string, sourcePath?: string, lineRange?: [number, number]) {
 		if (text.length > MAX_PASTE_LENGTH && sourcePath) {
 			// Too large to paste — reference the file instead
-			const loc = lineRange ? ` lines ${lineRange[0]}-${lineRange[1]}` : "";
+			const message = renderTemplate(this.settings.templates.addNote, {
+				...this.templateContext(sourcePath),
+				startLine: lineRange?.[0],
+				endLine: lineRange?.[1],
+			});
 			this.ensureTerminal((view) => {
-				view.typeInTerminal(`Read @${sourcePath}${loc} `);
+				view.typeInTerminal(message);
 			});
 			return;
 		}
 
 		let message = "";
 		if (sourcePath) {
-			const loc = lineRange ? ` (lines ${lineRange[0]}-${lineRange[1]})` : "";
-			message = `From ${sourcePath}${loc}:\n\n${text} `;
+			message = renderTemplate(this.settings.templates.sendSelection, {
+				...this.templateContext(sourcePath),
+				selection: text,
+				startLine: lineRange?.[0],
+				endLine: lineRange?.[1],
+			});
 		} else {
 			message = `${text} `;
 		}
@@ -207,8 +537,217 @@ export default class ClaudeTerminalPlugin extends Plugin {
 		});
 	}
 
+	private pickTag() {
+		const files = this.app.vault.getMarkdownFiles();
+		const tagsPerFile = files.map((f) => {
+			const cache = this.app.metadataCache.getFileCache(f);
+			return (cache && getAllTags(cache)) ?? [];
+		});
+		const tags = countTags(tagsPerFile);
+		if (tags.length === 0) {
+			new Notice("No tags found in this vault.");
+			return;
+		}
+
+		new TagSuggestModal(this.app, tags, (tag) => {
+			const paths = files.filter((_, i) => hasTag(tagsPerFile[i], tag)).map((f) => f.path);
+			this.previewFileSet(`tag ${tag}`, paths);
+		}).open();
+	}
+
+	/** Add every file in a folder, recursively */
+	addFolder(folder: TFolder) {
+		const paths: string[] = [];
+		Vault.recurseChildren(folder, (f) => {
+			if (f instanceof TFile) paths.push(f.path);
+		});
+		this.previewFileSet(`folder ${folder.isRoot() ? "/" : folder.path}`, paths.sort());
+	}
+
+	/** Add notes whose path or content matches a simple search query */
+	async addSearchResults(query: string) {
+		const search = prepareSimpleSearch(query);
+		const paths: string[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (search(file.path) || search(await this.app.vault.cachedRead(file))) {
+				paths.push(file.path);
+			}
+		}
+		this.previewFileSet(`search "${query}"`, paths.sort());
+	}
+
+	/** Show the matching files for the user to prune, then add them */
+	private previewFileSet(description: string, paths: string[]) {
+		if (paths.length === 0) {
+			new Notice(`No notes found for ${description}.`);
+			return;
+		}
+		new FileChecklistModal(
+			this.app,
+			`${paths.length} note${paths.length === 1 ? "" : "s"} for ${description}`,
+			paths.map((path) => ({ path })),
+			(selected) => this.addFileSet(description, selected),
+		).open();
+	}
+
+	/**
+	 * Add a set of files. Sets larger than `maxFilesPerMessage` are written
+	 * to a manifest note, and Claude is pointed at the manifest instead.
+	 */
+	async addFileSet(description: string, paths: string[]) {
+		if (paths.length <= this.settings.maxFilesPerMessage) {
+			this.addFiles(paths);
+			return;
+		}
+
+		const folder = normalizePath(this.settings.manifestFolder || "/");
+		try {
+			if (folder !== "/" && !this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			const name = manifestName(description, new Date());
+			const manifest = await this.app.vault.create(
+				normalizePath(`${folder}/${name}.md`),
+				formatManifest(description, paths),
+			);
+			this.ensureTerminal((view) => {
+				view.typeInTerminal(`Read the ${paths.length} files listed in @${manifest.path} `);
+			});
+		} catch (err) {
+			console.error("obsidian-shell: failed to write manifest", err);
+			new Notice(`Failed to write manifest note: ${err instanceof Error ? err.message : err}`);
+		}
+	}
+
+	/**
+	 * Collect a note's linked notes (and optionally backlinks) up to the
+	 * configured depth, let the user prune the list, then add them.
+	 */
+	addNoteWithLinks(file: TFile) {
+		const { linkDepth, includeBacklinks, maxLinkedFiles } = this.settings;
+		const notes = collectLinkedNotes(file.path, this.app.metadataCache.resolvedLinks, {
+			depth: linkDepth,
+			backlinks: includeBacklinks,
+			maxFiles: maxLinkedFiles,
+		});
+
+		const detail = (via: string, depth: number) =>
+			via === "start" ? "this note" : `${via === "link" ? "linked" : "backlink"}, ${depth} hop${depth === 1 ? "" : "s"}`;
+		new FileChecklistModal(
+			this.app,
+			`Add ${file.basename} with linked notes`,
+			notes.map((n) => ({ path: n.path, detail: detail(n.via, n.depth) })),
+			(paths) => this.addFileSet(`links from ${file.basename}`, paths),
+		).open();
+	}
+
+	/**
+	 * Send the heading section around the cursor. Falls back to adding the
+	 * whole note when the cursor is above the first heading.
+	 */
+	sendCurrentSection(editor: Editor, file: TFile) {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const range = findHeadingSection(cache?.headings, editor.getCursor().line, editor.lastLine());
+		if (!range) {
+			this.addFiles([file.path]);
+			return;
+		}
+		this.sendEditorRange(editor, file, range);
+	}
+
+	/**
+	 * Send the block under the cursor. If the cursor is on a link to a block
+	 * or heading (`[[Note#^id]]`, `[[Note#Heading]]`), the linked range is
+	 * sent instead.
+	 */
+	async sendCurrentBlock(editor: Editor, file: TFile) {
+		const cursor = editor.getCursor();
+		const cache = this.app.metadataCache.getFileCache(file);
+
+		const link = cache?.links?.find((l) =>
+			l.position.start.line === cursor.line &&
+			l.position.start.col <= cursor.ch &&
+			l.position.end.col >= cursor.ch &&
+			l.link.includes("#"));
+		if (link && await this.sendLinkedRange(link.link, file)) return;
+
+		const block = findBlock(cache, cursor.line);
+		if (!block) {
+			new Notice("No block under the cursor.");
+			return;
+		}
+		this.sendEditorRange(editor, file, block);
+	}
+
+	/** Resolve `Note#^id` / `Note#Heading` and send that range. Returns false if it doesn't resolve. */
+	private async sendLinkedRange(linktext: string, source: TFile): Promise<boolean> {
+		const hash = linktext.indexOf("#");
+		const linkpath = linktext.slice(0, hash);
+		const target = linkpath
+			? this.app.metadataCache.getFirstLinkpathDest(linkpath, source.path)
+			: source;
+		if (!target) return false;
+
+		const targetCache = this.app.metadataCache.getFileCache(target);
+		const result = targetCache ? resolveSubpath(targetCache, linktext.slice(hash)) : null;
+		if (!result || result.type === "footnote") return false;
+
+		const lines = (await this.app.vault.cachedRead(target)).split("\n");
+		const end = result.end ? (result.type === "heading" ? result.end.line - 1 : result.end.line) : lines.length - 1;
+		const range = trimTrailingBlankLines({ start: result.start.line, end }, (l) => lines[l] ?? "");
+		this.sendSelection(lines.slice(range.start, range.end + 1).join("\n"), target.path, [range.start + 1, range.end + 1]);
+		return true;
+	}
+
+	private sendEditorRange(editor: Editor, file: TFile, range: LineRange) {
+		const trimmed = trimTrailingBlankLines(range, (l) => editor.getLine(l));
+		const text = editor.getRange(
+			{ line: trimmed.start, ch: 0 },
+			{ line: trimmed.end, ch: editor.getLine(trimmed.end).length },
+		);
+		this.sendSelection(text, file.path, [trimmed.start + 1, trimmed.end + 1]);
+	}
+
+	/**
+	 * Render a custom action's template for a file (the active note by
+	 * default, including the editor selection) and type it into the terminal.
+	 */
+	runCustomAction(action: CustomAction, path?: string) {
+		const ctx: TemplateContext = this.templateContext(path ?? this.app.workspace.getActiveFile()?.path);
+		const editor = path ? null : this.app.workspace.activeEditor?.editor;
+		const selection = editor?.getSelection();
+		if (editor && selection) {
+			const from = editor.getCursor("from").line + 1;
+			const to = editor.getCursor("to").line + 1;
+			ctx.selection = selection;
+			if (from !== to) {
+				ctx.startLine = from;
+				ctx.endLine = to;
+			}
+		}
+
+		const message = renderTemplate(action.template, ctx);
+		if (!message.trim()) return;
+		this.ensureTerminal((view) => {
+			view.typeInTerminal(message);
+		});
+	}
+
 	// --- Helpers ---
 
+	/** Template variables for a vault file: path, title and frontmatter */
+	private templateContext(path?: string): TemplateContext {
+		const ctx: TemplateContext = { date: new Date() };
+		if (!path) return ctx;
+		ctx.path = path;
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			ctx.title = file.basename;
+			ctx.frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		}
+		return ctx;
+	}
+
 	/**
 	 * Ensure the terminal view is open and ready, then call the callback.
 	 */
@@ -254,7 +793,23 @@ export default class ClaudeTerminalPlugin extends Plugin {
 		}
 	}
 
-	async openNewTerminal() {
+	/** Reveal the session changes panel, opening it in the right sidebar if needed */
+	async openChangesView() {
+		const { workspace } = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_CHANGES)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return;
+			await leaf.setViewState({ type: VIEW_TYPE_CHANGES, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Open an additional terminal tab. `state` is passed through as the view
+	 * state, e.g. `{ profileId }` to launch a specific profile.
+	 */
+	async openNewTerminal(state: TerminalViewState = {}) {
 		const { workspace } = this.app;
 		const existingLeaves = workspace.getLeavesOfType(VIEW_TYPE_TERMINAL);
 
@@ -267,11 +822,60 @@ export default class ClaudeTerminalPlugin extends Plugin {
 		}
 
 		if (leaf) {
-			await leaf.setViewState({ type: VIEW_TYPE_TERMINAL, active: true });
+			await leaf.setViewState({ type: VIEW_TYPE_TERMINAL, active: true, state: { ...state } });
 			workspace.revealLeaf(leaf);
 		}
 	}
 
+	/**
+	 * List past Claude sessions for the vault and open a new terminal
+	 * that resumes the chosen one with `--resume <id>`.
+	 */
+	async pickClaudeSession() {
+		const profile = findClaudeProfile(this.settings);
+		if (!profile) {
+			new Notice("No launch profile runs claude. Add one in Claude Shell settings.");
+			return;
+		}
+
+		// Transcripts are keyed by the directory claude runs in
+		const vaultPath = (this.app.vault.adapter as any).basePath as string;
+		const sessions = await listClaudeSessions(resolveProfileCwd(profile.cwd, vaultPath));
+		if (sessions.length === 0) {
+			new Notice("No previous Claude sessions found for this vault.");
+			return;
+		}
+
+		new SessionPickerModal(this.app, sessions, (session) => {
+			this.openNewTerminal({ profileId: profile.id, resume: session.id });
+		}).open();
+	}
+
+	/** Open a new terminal whose working directory is the given vault folder */
+	openTerminalIn(folder: TFolder) {
+		return this.openNewTerminal({ cwd: folder.isRoot() ? "." : folder.path });
+	}
+
+	/** All open terminal views */
+	getTerminalViews(): TerminalView[] {
+		return this.app.workspace.getLeavesOfType(VIEW_TYPE_TERMINAL)
+			.map((leaf) => leaf.view)
+			.filter((view): view is TerminalView => view instanceof TerminalView);
+	}
+
+	/** The xterm theme for Obsidian's current mode: the configured colors over the Obsidian theme */
+	getTerminalTheme(): ITheme {
+		const mode = document.body.hasClass("theme-dark") ? "dark" : "light";
+		const style = getComputedStyle(document.body);
+		return resolveTerminalTheme(this.settings.theme[mode], (name) => style.getPropertyValue(name).trim());
+	}
+
+	/** Update every open terminal after a settings or Obsidian theme change */
+	applySettings() {
+		this.getTerminalViews().forEach((view) => view.applySettings());
+		this.updateStatusBar();
+	}
+
 	getTerminalView(): TerminalView | null {
 		const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_TERMINAL);
 		if (leaves.length === 0) return null;
@@ -294,10 +898,18 @@ export default class ClaudeTerminalPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, migrateLegacySettings(await this.loadData()));
+		// Merge nested objects so new defaults are picked up and never shared
+		this.settings.templates = { ...DEFAULT_SETTINGS.templates, ...this.settings.templates };
+		this.settings.customActions = [...this.settings.customActions];
+		this.settings.keyBindings = this.settings.keyBindings.map((binding) => ({ ...binding }));
+		this.settings.theme = normalizeThemeSettings(this.settings.theme);
+		Object.assign(this.settings, normalizeTypography(this.settings, DEFAULT_SETTINGS));
+		this.settings.profiles = this.settings.profiles.map(normalizeProfile);
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.applySettings();
 	}
 }
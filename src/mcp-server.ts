@@ -0,0 +1,202 @@
+import * as http from "http";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomBytes } from "crypto";
+
+const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface McpTool {
+	name: string;
+	description: string;
+	/** JSON Schema for the tool's arguments */
+	inputSchema: Record<string, unknown>;
+	handler: (args: Record<string, any>) => unknown | Promise<unknown>;
+}
+
+interface RpcRequest {
+	jsonrpc: "2.0";
+	id?: string | number | null;
+	method: string;
+	params?: Record<string, any>;
+}
+
+interface RpcResponse {
+	jsonrpc: "2.0";
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+/** Error a tool handler can throw to report bad arguments to the model */
+export class ToolError extends Error {}
+
+/**
+ * Handle one JSON-RPC message for the MCP tools protocol (initialize, ping,
+ * tools/list, tools/call). Returns null for notifications, which get no reply.
+ */
+export async function handleRpc(
+	message: RpcRequest,
+	tools: McpTool[],
+	serverInfo: { name: string; version: string },
+): Promise<RpcResponse | null> {
+	const id = message?.id ?? null;
+	const reply = (result: unknown): RpcResponse => ({ jsonrpc: "2.0", id, result });
+	const fail = (code: number, msg: string): RpcResponse => ({ jsonrpc: "2.0", id, error: { code, message: msg } });
+
+	if (message?.jsonrpc !== "2.0" || typeof message.method !== "string") {
+		return fail(-32600, "Invalid request");
+	}
+	if (message.id === undefined) return null;
+
+	switch (message.method) {
+		case "initialize": {
+			const requested = message.params?.protocolVersion;
+			return reply({
+				protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+				capabilities: { tools: {} },
+				serverInfo,
+			});
+		}
+		case "ping":
+			return reply({});
+		case "tools/list":
+			return reply({
+				tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+			});
+		case "tools/call": {
+			const tool = tools.find((t) => t.name === message.params?.name);
+			if (!tool) return fail(-32602, `Unknown tool: ${message.params?.name}`);
+			try {
+				const result = await tool.handler(message.params?.arguments ?? {});
+				const text = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+				return reply({ content: [{ type: "text", text }] });
+			} catch (err) {
+				// Tool failures are reported to the model, not as protocol errors
+				const text = err instanceof Error ? err.message : String(err);
+				if (!(err instanceof ToolError)) console.error(`obsidian-shell: MCP tool ${tool.name} failed`, err);
+				return reply({ content: [{ type: "text", text }], isError: true });
+			}
+		}
+		default:
+			return fail(-32601, `Method not found: ${message.method}`);
+	}
+}
+
+/**
+ * Minimal MCP server over the Streamable HTTP transport, bound to loopback.
+ * Every request must carry the bearer token generated at start, so other
+ * local processes and web pages can't call into the vault.
+ */
+export class McpServer {
+	private server: http.Server | null = null;
+	private tools: McpTool[];
+	private serverInfo: { name: string; version: string };
+	readonly token = randomBytes(24).toString("hex");
+	port: number | null = null;
+	/** Private temp folder holding the config file, while the server runs */
+	private configDir: string | null = null;
+
+	constructor(tools: McpTool[], serverInfo: { name: string; version: string }) {
+		this.tools = tools;
+		this.serverInfo = serverInfo;
+	}
+
+	get url(): string | null {
+		return this.port ? `http://127.0.0.1:${this.port}/mcp` : null;
+	}
+
+	/** Start listening. Port 0 picks a free port. */
+	start(port = 0): Promise<number> {
+		return new Promise((resolve, reject) => {
+			const server = http.createServer((req, res) => this.handleRequest(req, res));
+			server.once("error", reject);
+			server.listen(port, "127.0.0.1", () => {
+				const address = server.address();
+				const bound = typeof address === "object" && address ? address.port : port;
+				this.port = bound;
+				this.server = server;
+				resolve(bound);
+			});
+		});
+	}
+
+	stop() {
+		this.server?.close();
+		this.server = null;
+		this.port = null;
+		if (this.configDir) fs.rmSync(this.configDir, { recursive: true, force: true });
+		this.configDir = null;
+	}
+
+	/** Config for `claude --mcp-config` (accepts a JSON string) */
+	claudeConfig(name = "obsidian"): string | null {
+		if (!this.url) return null;
+		return JSON.stringify({
+			mcpServers: {
+				[name]: {
+					type: "http",
+					url: this.url,
+					headers: { Authorization: `Bearer ${this.token}` },
+				},
+			},
+		});
+	}
+
+	/**
+	 * Path of a file holding `claudeConfig()`, readable only by this user.
+	 * Claude is given the path rather than the JSON so the token doesn't
+	 * show up in process listings.
+	 */
+	claudeConfigFile(name = "obsidian"): string | null {
+		const config = this.claudeConfig(name);
+		if (!config) return null;
+		this.configDir ??= fs.mkdtempSync(path.join(os.tmpdir(), "obsidian-shell-"));
+		const file = path.join(this.configDir, `${name}-mcp.json`);
+		fs.writeFileSync(file, config, { mode: 0o600 });
+		return file;
+	}
+
+	private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		const send = (status: number, body?: unknown) => {
+			res.writeHead(status, body === undefined ? {} : { "Content-Type": "application/json" });
+			res.end(body === undefined ? undefined : JSON.stringify(body));
+		};
+
+		if (req.url?.split("?")[0] !== "/mcp") return send(404);
+		// Browsers always send Origin; only local tools (no Origin) may connect
+		if (req.headers.origin) return send(403);
+		if (req.headers.authorization !== `Bearer ${this.token}`) return send(401);
+		if (req.method !== "POST") return send(405);
+
+		let size = 0;
+		const chunks: Buffer[] = [];
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				send(413);
+				req.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", async () => {
+			if (res.writableEnded) return;
+			let payload: RpcRequest | RpcRequest[];
+			try {
+				payload = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+			} catch {
+				return send(400, { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+			}
+
+			const messages = Array.isArray(payload) ? payload : [payload];
+			const responses = (await Promise.all(
+				messages.map((m) => handleRpc(m, this.tools, this.serverInfo)),
+			)).filter((r): r is RpcResponse => r !== null);
+
+			if (responses.length === 0) return send(202);
+			send(200, Array.isArray(payload) ? responses : responses[0]);
+		});
+	}
+}
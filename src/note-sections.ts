@@ -0,0 +1,63 @@
+import type { CachedMetadata, HeadingCache } from "obsidian";
+
+/** Inclusive, 0-based line range within a note */
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * The heading section containing `line`: from the nearest heading at or
+ * above it, up to the line before the next heading of the same or higher
+ * level (or the end of the note). Null if the line is above every heading.
+ */
+export function findHeadingSection(
+	headings: HeadingCache[] | undefined,
+	line: number,
+	lastLine: number,
+): LineRange | null {
+	if (!headings || headings.length === 0) return null;
+
+	let index = -1;
+	for (let i = 0; i < headings.length; i++) {
+		if (headings[i].position.start.line <= line) index = i;
+		else break;
+	}
+	if (index === -1) return null;
+
+	const current = headings[index];
+	const next = headings.slice(index + 1).find((h) => h.level <= current.level);
+	return {
+		start: current.position.start.line,
+		end: next ? next.position.start.line - 1 : lastLine,
+	};
+}
+
+/**
+ * The block containing `line`. A list item with a block id (`^id`) is
+ * returned on its own; otherwise the whole enclosing section (paragraph,
+ * list, code block, table, callout…) is used.
+ */
+export function findBlock(cache: CachedMetadata | null | undefined, line: number): (LineRange & { id?: string }) | null {
+	if (!cache) return null;
+
+	const item = cache.listItems
+		?.filter((li) => li.id && li.position.start.line <= line && li.position.end.line >= line)
+		.pop();
+	if (item) {
+		return { start: item.position.start.line, end: item.position.end.line, id: item.id };
+	}
+
+	const section = cache.sections?.find(
+		(s) => s.position.start.line <= line && s.position.end.line >= line,
+	);
+	if (!section || section.type === "yaml") return null;
+	return { start: section.position.start.line, end: section.position.end.line, id: section.id };
+}
+
+/** Drop trailing blank lines from a range, using `getLine` to read the note */
+export function trimTrailingBlankLines(range: LineRange, getLine: (line: number) => string): LineRange {
+	let end = range.end;
+	while (end > range.start && getLine(end).trim() === "") end--;
+	return { start: range.start, end };
+}
@@ -0,0 +1,121 @@
+/**
+ * Binary split tree for terminal panes. Generic over the pane type so the
+ * same shape serves live panes and their saved state.
+ */
+
+/** "vertical" puts panes side by side (a vertical divider), "horizontal" stacks them */
+export type SplitDirection = "vertical" | "horizontal";
+export type FocusDirection = "left" | "right" | "up" | "down";
+
+export type LayoutNode<T> =
+	| { type: "pane"; pane: T }
+	| {
+		type: "split";
+		direction: SplitDirection;
+		/** Share of the space given to the first child, 0–1 */
+		ratio: number;
+		children: [LayoutNode<T>, LayoutNode<T>];
+	};
+
+const MIN_RATIO = 0.1;
+
+/** Panes in reading order (first child before second) */
+export function listPanes<T>(node: LayoutNode<T>): T[] {
+	return node.type === "pane" ? [node.pane] : [...listPanes(node.children[0]), ...listPanes(node.children[1])];
+}
+
+export function mapLayout<T, U>(node: LayoutNode<T>, fn: (pane: T) => U): LayoutNode<U> {
+	if (node.type === "pane") return { type: "pane", pane: fn(node.pane) };
+	return {
+		type: "split",
+		direction: node.direction,
+		ratio: node.ratio,
+		children: [mapLayout(node.children[0], fn), mapLayout(node.children[1], fn)],
+	};
+}
+
+/** Replace `target` with a split holding it and `added` (after it), sharing the space equally */
+export function splitPane<T>(node: LayoutNode<T>, target: T, direction: SplitDirection, added: T): LayoutNode<T> {
+	if (node.type === "pane") {
+		if (node.pane !== target) return node;
+		return { type: "split", direction, ratio: 0.5, children: [node, { type: "pane", pane: added }] };
+	}
+	return {
+		...node,
+		children: [splitPane(node.children[0], target, direction, added), splitPane(node.children[1], target, direction, added)],
+	};
+}
+
+/** Remove `target`; its sibling takes the parent split's place. Null if nothing is left. */
+export function removePane<T>(node: LayoutNode<T>, target: T): LayoutNode<T> | null {
+	if (node.type === "pane") return node.pane === target ? null : node;
+	const first = removePane(node.children[0], target);
+	const second = removePane(node.children[1], target);
+	if (!first) return second;
+	if (!second) return first;
+	return { ...node, children: [first, second] };
+}
+
+export function clampRatio(ratio: number): number {
+	return Math.min(1 - MIN_RATIO, Math.max(MIN_RATIO, ratio));
+}
+
+/**
+ * Check a saved layout, returning null if it's malformed. Ratios are
+ * clamped and each pane's state is passed through `parsePane`.
+ */
+export function parseLayout<T>(value: unknown, parsePane: (raw: unknown) => T): LayoutNode<T> | null {
+	if (!value || typeof value !== "object") return null;
+	const node = value as Record<string, unknown>;
+	if (node.type === "pane") return { type: "pane", pane: parsePane(node.pane) };
+	const { children, direction, ratio } = node;
+	if (node.type !== "split" || !Array.isArray(children) || children.length !== 2) return null;
+	if (direction !== "vertical" && direction !== "horizontal") return null;
+
+	const first = parseLayout(children[0], parsePane);
+	const second = parseLayout(children[1], parsePane);
+	if (!first || !second) return null;
+	const clamped = typeof ratio === "number" && isFinite(ratio) ? clampRatio(ratio) : 0.5;
+	return { type: "split", direction, ratio: clamped, children: [first, second] };
+}
+
+export interface PaneRect {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+}
+
+/**
+ * The pane next to `from` in the given direction: among panes entirely on
+ * that side, the nearest one, preferring panes that overlap it on the
+ * other axis. Null if there is none.
+ */
+export function paneInDirection<T>(rects: Map<T, PaneRect>, from: T, direction: FocusDirection): T | null {
+	const origin = rects.get(from);
+	if (!origin) return null;
+	const horizontal = direction === "left" || direction === "right";
+
+	let best: T | null = null;
+	let bestScore = Infinity;
+	for (const [pane, rect] of rects) {
+		if (pane === from) continue;
+		const gap =
+			direction === "left" ? origin.left - rect.right :
+			direction === "right" ? rect.left - origin.right :
+			direction === "up" ? origin.top - rect.bottom :
+			rect.top - origin.bottom;
+		if (gap < -1) continue;
+
+		const overlap = horizontal
+			? Math.min(origin.bottom, rect.bottom) - Math.max(origin.top, rect.top)
+			: Math.min(origin.right, rect.right) - Math.max(origin.left, rect.left);
+		// Overlapping panes always beat diagonal ones
+		const score = Math.max(0, gap) + (overlap > 0 ? 0 : 100_000);
+		if (score < bestScore) {
+			best = pane;
+			bestScore = score;
+		}
+	}
+	return best;
+}
@@ -0,0 +1,88 @@
+import type { RestartPolicy } from "./constants";
+
+/** How long output must be quiet before a running process counts as idle */
+export const IDLE_AFTER_MS = 1500;
+/** A process that ran at least this long resets the restart backoff */
+export const STABLE_RUN_MS = 30_000;
+const RESTART_BASE_MS = 1000;
+const RESTART_MAX_MS = 30_000;
+
+export type ProcessState = "starting" | "running" | "idle" | "exited";
+
+export interface ProcessStatus {
+	state: ProcessState;
+	exitCode?: number;
+	signal?: number;
+}
+
+/** Short label for the status bar, e.g. "running" or "exited (1)" */
+export function formatProcessStatus(status: ProcessStatus): string {
+	switch (status.state) {
+		case "starting": return "starting";
+		case "running": return "running";
+		case "idle": return "waiting for input";
+		case "exited":
+			if (status.signal) return `exited (signal ${status.signal})`;
+			return `exited (${status.exitCode ?? 0})`;
+	}
+}
+
+/** Whether an exited process should be started again under `policy` */
+export function shouldRestart(policy: RestartPolicy, status: ProcessStatus): boolean {
+	if (status.state !== "exited") return false;
+	if (policy === "always") return true;
+	return policy === "on-failure" && (status.exitCode !== 0 || !!status.signal);
+}
+
+/** Delay before the nth consecutive automatic restart (0-based): 1s, 2s, 4s… capped at 30s */
+export function restartDelay(attempt: number): number {
+	return Math.min(RESTART_MAX_MS, RESTART_BASE_MS * 2 ** attempt);
+}
+
+/**
+ * Derives a process's state from PTY output timing: output means it's
+ * working, a quiet period means it's waiting for input (or a prompt).
+ * `onChange` fires only when the state actually changes.
+ */
+export class ActivityTracker {
+	private current: ProcessStatus = { state: "starting" };
+	private idleTimer: ReturnType<typeof setTimeout> | null = null;
+	private onChange: (status: ProcessStatus) => void;
+	private idleAfter: number;
+
+	constructor(onChange: (status: ProcessStatus) => void, idleAfter = IDLE_AFTER_MS) {
+		this.onChange = onChange;
+		this.idleAfter = idleAfter;
+	}
+
+	get status(): ProcessStatus {
+		return this.current;
+	}
+
+	/** Call on every chunk of PTY output */
+	activity() {
+		if (this.current.state === "exited") return;
+		this.set({ state: "running" });
+		if (this.idleTimer) clearTimeout(this.idleTimer);
+		this.idleTimer = setTimeout(() => {
+			this.idleTimer = null;
+			this.set({ state: "idle" });
+		}, this.idleAfter);
+	}
+
+	exit(exitCode: number, signal?: number) {
+		this.dispose();
+		this.set({ state: "exited", exitCode, signal: signal || undefined });
+	}
+
+	dispose() {
+		if (this.idleTimer) clearTimeout(this.idleTimer);
+		this.idleTimer = null;
+	}
+
+	private set(status: ProcessStatus) {
+		if (status.state === this.current.state && status.state !== "exited") return;
+		this.current = status;
+		this.onChange(status);
+	}
+}
@@ -0,0 +1,136 @@
+import * as path from "path";
+import type { ClaudeTerminalSettings, LaunchProfile } from "./constants";
+import { parseCommand } from "./parse-command";
+
+export const DEFAULT_PROFILE_ID = "claude";
+export const SHELL_PROFILE_ID = "shell";
+
+/** Fresh copies of the built-in profiles (never share the objects between settings) */
+export function createDefaultProfiles(): LaunchProfile[] {
+	return [
+		{
+			id: DEFAULT_PROFILE_ID,
+			name: "Claude",
+			command: "claude",
+			args: "",
+			cwd: "",
+			env: {},
+			icon: "sparkles",
+			showInRibbon: false,
+			restart: "never",
+			notifications: "desktop",
+		},
+		{
+			id: SHELL_PROFILE_ID,
+			name: "Shell",
+			command: "",
+			args: "",
+			cwd: "",
+			env: {},
+			icon: "terminal-square",
+			showInRibbon: false,
+			restart: "never",
+			notifications: "desktop",
+		},
+	];
+}
+
+export function createProfileId(): string {
+	return `profile-${Date.now().toString(36)}`;
+}
+
+/**
+ * Convert settings saved before profiles existed. `claudeFlags` becomes the
+ * Claude profile's args and `autoLaunch: false` makes the shell the default.
+ */
+export function migrateLegacySettings(data: Record<string, any> | null | undefined): Partial<ClaudeTerminalSettings> {
+	if (!data) return { profiles: createDefaultProfiles() };
+	if (Array.isArray(data.profiles)) return data;
+
+	const { claudeFlags, autoLaunch, ...rest } = data;
+	const profiles = createDefaultProfiles();
+	if (typeof claudeFlags === "string") profiles[0].args = claudeFlags;
+
+	return {
+		...rest,
+		profiles,
+		defaultProfileId: autoLaunch === false ? SHELL_PROFILE_ID : DEFAULT_PROFILE_ID,
+	};
+}
+
+/** Fill in fields added to profiles after they were saved */
+export function normalizeProfile(profile: Partial<LaunchProfile> & { id: string }): LaunchProfile {
+	return {
+		name: "",
+		command: "",
+		args: "",
+		cwd: "",
+		env: {},
+		icon: "",
+		showInRibbon: false,
+		restart: "never",
+		notifications: "desktop",
+		...profile,
+	};
+}
+
+/**
+ * Look up a profile by id, falling back to the default profile and then to
+ * the first one. Returns a built-in Claude profile if the list is empty.
+ */
+export function getProfile(settings: ClaudeTerminalSettings, id?: string | null): LaunchProfile {
+	const { profiles } = settings;
+	return profiles.find((p) => p.id === id)
+		?? profiles.find((p) => p.id === settings.defaultProfileId)
+		?? profiles[0]
+		?? createDefaultProfiles()[0];
+}
+
+/** Whether a profile launches the Claude CLI (by binary name, ignoring its directory) */
+export function isClaudeProfile(profile: LaunchProfile): boolean {
+	const bin = parseCommand(profile.command)[0];
+	return !!bin && path.basename(bin) === "claude";
+}
+
+/** The default profile if it runs Claude, otherwise the first profile that does */
+export function findClaudeProfile(settings: ClaudeTerminalSettings): LaunchProfile | null {
+	const preferred = getProfile(settings);
+	if (isClaudeProfile(preferred)) return preferred;
+	return settings.profiles.find(isClaudeProfile) ?? null;
+}
+
+/** First profile that starts the login shell (blank command), if any */
+export function findShellProfile(settings: ClaudeTerminalSettings): LaunchProfile | null {
+	return settings.profiles.find((p) => !p.command.trim()) ?? null;
+}
+
+/**
+ * Resolve a profile's working directory. Blank means the vault root,
+ * relative paths are taken from the vault root, `~` expands to HOME.
+ */
+export function resolveProfileCwd(cwd: string, vaultPath: string): string {
+	const trimmed = cwd.trim();
+	if (!trimmed) return vaultPath;
+	if (trimmed === "~" || trimmed.startsWith("~/")) {
+		return path.join(process.env.HOME || "", trimmed.slice(1));
+	}
+	if (path.isAbsolute(trimmed)) return trimmed;
+	return path.join(vaultPath, trimmed);
+}
+
+/** Parse `KEY=value` lines into an env map. Blank lines and `#` comments are ignored. */
+export function parseEnv(text: string): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const line of text.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#")) continue;
+		const eq = trimmed.indexOf("=");
+		if (eq <= 0) continue;
+		env[trimmed.slice(0, eq).trim()] = trimmed.slice(eq + 1).trim();
+	}
+	return env;
+}
+
+export function formatEnv(env: Record<string, string>): string {
+	return Object.entries(env).map(([k, v]) => `${k}=${v}`).join("\n");
+}
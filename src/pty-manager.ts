@@ -10,6 +10,10 @@ export interface SpawnOptions {
 	pluginDir: string;
 	/** If set, launch this command directly (skipping rc files) */
 	command?: string;
+	/** Extra arguments appended to the command (or passed to the shell) */
+	args?: string[];
+	/** Extra environment variables, applied over the defaults */
+	env?: Record<string, string>;
 	/** Pre-resolved user PATH. If omitted, uses process.env.PATH fallback. */
 	resolvedPath?: string;
 }
@@ -21,6 +25,8 @@ export class PtyManager {
 	private pty: any = null;
 	private dataCallbacks: DataCallback[] = [];
 	private exitCallbacks: ExitCallback[] = [];
+	/** Whether the running program has enabled bracketed paste (CSI ? 2004 h) */
+	private bracketedPaste = false;
 
 	spawn(options: SpawnOptions) {
 		// node-pty must be required at runtime (native module, not bundled)
@@ -35,12 +41,14 @@ export class PtyManager {
 			// Tell Claude Code we're xterm-based so it doesn't enable the
 			// Kitty keyboard protocol (which xterm.js doesn't support).
 			TERM_PROGRAM: "xterm",
-		});
+		}, options.env);
+
+		const extraArgs = options.args ?? [];
 
 		if (options.command) {
 			const parts = parseCommand(options.command);
 			const bin = parts[0];
-			const args = parts.slice(1);
+			const args = [...parts.slice(1), ...extraArgs];
 
 			this.pty = nodePty.spawn(bin, args, {
 				name: "xterm-256color",
@@ -50,7 +58,7 @@ export class PtyManager {
 				env,
 			});
 		} else {
-			this.pty = nodePty.spawn(shell, [], {
+			this.pty = nodePty.spawn(shell, extraArgs, {
 				name: "xterm-256color",
 				cols: options.cols,
 				rows: options.rows,
@@ -59,7 +67,11 @@ export class PtyManager {
 			});
 		}
 
+		this.bracketedPaste = false;
+
 		this.pty.onData((data: string) => {
+			// Track the mode before the sequence is stripped from the display stream
+			this.bracketedPaste = updateBracketedPasteMode(this.bracketedPaste, data);
 			const cleaned = stripUnsupportedSequences(data);
 			if (cleaned.length === 0) return;
 			for (const cb of this.dataCallbacks) {
@@ -109,8 +121,12 @@ export class PtyManager {
 		this.write(cmd + "\r");
 	}
 
+	/**
+	 * Type text into the running program as a paste, so embedded newlines
+	 * don't act as Enter presses.
+	 */
 	sendText(text: string) {
-		this.write(text);
+		this.write(formatPaste(text, this.bracketedPaste));
 	}
 }
 
@@ -198,15 +214,44 @@ export function detectShell(): string {
 // --- Escape sequence handling ---
 
 /**
- * Strip escape sequences that xterm.js doesn't handle well.
+ * Strip escape sequences that xterm.js doesn't handle well. OSC sequences
+ * are left alone: xterm.js parses them across chunks, and OSC 9/777 are
+ * handled by the terminal pane.
  */
 export function stripUnsupportedSequences(data: string): string {
 	return data.replace(
-		/\x1b\[[<>?][0-9;]*u|\x1b\[\?(?:2026|1004|2004)[hl]|\x1b\]9;4;0;\x07?/g,
+		/\x1b\[[<>?][0-9;]*u|\x1b\[\?(?:2026|1004|2004)[hl]/g,
 		""
 	);
 }
 
+/**
+ * Return the bracketed paste mode after `data` has been output. The last
+ * enable/disable sequence in the chunk wins.
+ */
+export function updateBracketedPasteMode(current: boolean, data: string): boolean {
+	const on = data.lastIndexOf("\x1b[?2004h");
+	const off = data.lastIndexOf("\x1b[?2004l");
+	if (on === -1 && off === -1) return current;
+	return on > off;
+}
+
+/**
+ * Prepare text to be written to the PTY as a paste. With bracketed paste the
+ * text is wrapped in paste markers (newlines normalised to CR, like a real
+ * terminal paste). Without it, a newline would submit the input, so newlines
+ * are flattened to spaces instead.
+ */
+export function formatPaste(text: string, bracketed: boolean): string {
+	const normalized = text.replace(/\r?\n/g, "\n");
+	if (bracketed) {
+		// Strip any end marker in the payload so it can't escape the paste
+		const safe = normalized.replace(/\x1b\[20[01]~/g, "").replace(/\n/g, "\r");
+		return `\x1b[200~${safe}\x1b[201~`;
+	}
+	return normalized.replace(/\n+/g, " ");
+}
+
 function requireNodePty(pluginDir: string) {
 	const modulePath = path.join(pluginDir, "node_modules", "node-pty");
 	try {
@@ -0,0 +1,57 @@
+import type { Terminal } from "@xterm/xterm";
+import type { SerializeAddon } from "@xterm/addon-serialize";
+
+/**
+ * Saving a pane's terminal buffer in the view state and replaying it when
+ * the pane reopens, controlled by the "Restore scrollback" setting.
+ */
+
+/** Lines of scrollback saved with the view */
+export const MAX_RESTORED_LINES = 1000;
+
+/** Saved scrollback to replay when a pane opens; null if there is none or restoring is off */
+export function scrollbackToRestore(saved: string | undefined, enabled: boolean): string | null {
+	return enabled && saved ? saved : null;
+}
+
+/**
+ * The buffer (ANSI, including colors) to save; undefined if restoring is off
+ * or it can't be serialized. Saved scrollback that hasn't been replayed yet
+ * (`pending`, e.g. for a pane that was never shown) is kept as it is.
+ */
+export function scrollbackToSave(
+	addon: Pick<SerializeAddon, "serialize"> | null,
+	enabled: boolean,
+	pending: string | null = null,
+): string | undefined {
+	if (!enabled) return undefined;
+	if (pending) return pending;
+	if (!addon) return undefined;
+	try {
+		return addon.serialize({ scrollback: MAX_RESTORED_LINES }) || undefined;
+	} catch {
+		// Serialization can fail if the terminal was disposed mid-call
+		return undefined;
+	}
+}
+
+/** A dim full-width rule with a centered label, on its own line */
+export function formatDivider(text: string, cols: number): string {
+	const label = ` ${text} `;
+	const width = Math.max(0, cols - label.length);
+	const left = "─".repeat(Math.floor(width / 2));
+	const right = "─".repeat(width - left.length);
+	return `\x1b[0m\r\n\x1b[2m${left}${label}${right}\x1b[0m\r\n`;
+}
+
+/**
+ * Write the buffer saved by a previous session above a divider, so the old
+ * transcript stays readable while the new process starts below it. Returns
+ * whether anything was written.
+ */
+export function replayScrollback(terminal: Pick<Terminal, "write" | "cols">, scrollback: string | null): boolean {
+	if (!scrollback) return false;
+	terminal.write(scrollback);
+	terminal.write(formatDivider("session restored", terminal.cols));
+	return true;
+}
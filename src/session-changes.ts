@@ -0,0 +1,298 @@
+import { TAbstractFile, TFile, Vault, EventRef, Events } from "obsidian";
+
+/** Extensions whose content is snapshotted so changes can be diffed and reverted */
+const TEXT_EXTENSIONS = new Set([
+	"md", "canvas", "base", "txt", "json", "csv", "yaml", "yml",
+	"css", "js", "ts", "html", "xml", "svg", "tex",
+]);
+const MAX_SNAPSHOT_BYTES = 1024 * 1024;
+const DEFAULT_BASELINE_BYTES = 16 * 1024 * 1024;
+
+export type ChangeKind = "modified" | "created" | "deleted";
+
+export interface FileChange {
+	/** Current path (the path before deletion, for deleted files) */
+	path: string;
+	/** Path when the session started, if the file has since been renamed */
+	originalPath?: string;
+	/** Content when the session started; null if it didn't exist; undefined if not captured */
+	original: string | null | undefined;
+	deleted: boolean;
+}
+
+export function changeKind(change: FileChange): ChangeKind {
+	if (change.deleted) return "deleted";
+	return change.original === null ? "created" : "modified";
+}
+
+export function isTextFile(file: TFile): boolean {
+	return TEXT_EXTENSIONS.has(file.extension.toLowerCase());
+}
+
+/** Last seen content of a text file, with its modification time when read */
+interface Snapshot {
+	content: string;
+	mtime: number;
+	/** False for snapshots kept from an earlier session until their mtime is checked */
+	verified: boolean;
+}
+
+/**
+ * Records vault files changed while any terminal process is running, with
+ * their content from before the change. Text files are read into a baseline
+ * (up to a size budget) when tracking starts, so the first change to a file
+ * can be diffed against what it looked like before. The baseline is kept
+ * between sessions; only files modified since they were read are read again.
+ * Emits "changed" whenever the set changes, and
+ * "file-changed" (path, content before) for every individual change, where
+ * the content is null for a new file and undefined if it wasn't captured.
+ */
+export class SessionChangeTracker extends Events {
+	private vault: Vault;
+	private sessions = new Set<unknown>();
+	private eventRefs: EventRef[] = [];
+	/** Last seen content of text files */
+	private known = new Map<string, Snapshot>();
+	private changes = new Map<string, FileChange>();
+	/** Writes made by revert, which shouldn't be recorded as new changes */
+	private ownWrites = new Set<string>();
+
+	/** Most bytes of text kept in the baseline */
+	private baselineBytes: () => number;
+
+	constructor(vault: Vault, baselineBytes: () => number = () => DEFAULT_BASELINE_BYTES) {
+		super();
+		this.vault = vault;
+		this.baselineBytes = baselineBytes;
+	}
+
+	get isTracking(): boolean {
+		return this.sessions.size > 0;
+	}
+
+	list(): FileChange[] {
+		return [...this.changes.values()].sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	get(path: string): FileChange | undefined {
+		return this.changes.get(path);
+	}
+
+	/** Start tracking on behalf of `session` (e.g. a terminal view) */
+	begin(session: unknown) {
+		const wasTracking = this.isTracking;
+		this.sessions.add(session);
+		if (wasTracking) return;
+
+		// Files may have been edited since, so the kept baseline can't be used until checked
+		for (const snapshot of this.known.values()) snapshot.verified = false;
+		const { vault } = this;
+		this.eventRefs = [
+			vault.on("create", (file) => this.onCreate(file)),
+			vault.on("modify", (file) => this.onModify(file)),
+			vault.on("delete", (file) => this.onDelete(file)),
+			vault.on("rename", (file, oldPath) => this.onRename(file, oldPath)),
+		];
+		void this.captureBaseline();
+	}
+
+	/**
+	 * Stop tracking for `session`; recorded changes are kept until accepted.
+	 * The baseline stays, to be checked against modification times next time.
+	 */
+	end(session: unknown) {
+		if (!this.sessions.delete(session) || this.isTracking) return;
+		this.eventRefs.forEach((ref) => this.vault.offref(ref));
+		this.eventRefs = [];
+	}
+
+	/** Forget one change (or all), keeping the files as they are */
+	accept(path?: string) {
+		if (path === undefined) this.changes.clear();
+		else this.changes.delete(path);
+		this.trigger("changed");
+	}
+
+	/** Restore a file to its content, path and existence from before the session */
+	async revert(path: string) {
+		const change = this.changes.get(path);
+		const original = change?.original;
+		if (!change || original === undefined) return;
+
+		const existing = this.vault.getAbstractFileByPath(change.path);
+		const target = change.originalPath ?? change.path;
+		await this.withoutRecording([change.path, target], async () => {
+			if (original === null) {
+				if (existing instanceof TFile) await this.vault.delete(existing);
+				return;
+			}
+			if (existing instanceof TFile) {
+				if (target !== change.path) await this.vault.rename(existing, target);
+				await this.vault.modify(existing, original);
+			} else {
+				await this.vault.create(target, original);
+			}
+		});
+		this.changes.delete(path);
+		this.trigger("changed");
+	}
+
+	/** Write new content for a changed file, e.g. after reverting one hunk */
+	async write(path: string, content: string) {
+		const file = this.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return;
+		await this.withoutRecording([path], () => this.vault.modify(file, content));
+		const change = this.changes.get(path);
+		if (change && change.original === content && !change.originalPath) this.changes.delete(path);
+		this.trigger("changed");
+	}
+
+	/** Current content of a changed file, or null if it's gone or not text */
+	async readCurrent(change: FileChange): Promise<string | null> {
+		if (change.deleted) return null;
+		const file = this.vault.getAbstractFileByPath(change.path);
+		if (!(file instanceof TFile) || !isTextFile(file)) return null;
+		return this.vault.read(file);
+	}
+
+	private async withoutRecording(paths: string[], fn: () => Promise<unknown>) {
+		paths.forEach((p) => this.ownWrites.add(p));
+		try {
+			await fn();
+		} finally {
+			paths.forEach((p) => this.ownWrites.delete(p));
+		}
+	}
+
+	private async captureBaseline() {
+		// Choose the files first and drop the rest, so the budget holds even
+		// if it was lowered or files were deleted while nothing was tracking
+		const limit = this.baselineBytes();
+		const files: TFile[] = [];
+		let total = 0;
+		for (const file of this.vault.getFiles()) {
+			if (!isTextFile(file) || file.stat.size > MAX_SNAPSHOT_BYTES) continue;
+			if (total + file.stat.size > limit) break;
+			files.push(file);
+			total += file.stat.size;
+		}
+		const included = new Set(files.map((file) => file.path));
+		for (const path of this.known.keys()) {
+			if (!included.has(path)) this.known.delete(path);
+		}
+
+		for (const file of files) {
+			if (!this.isTracking) return;
+			// Unchanged since it was read, or read after a change while we were working through the vault
+			const snapshot = this.known.get(file.path);
+			if (snapshot?.mtime === file.stat.mtime) {
+				snapshot.verified = true;
+				continue;
+			}
+			try {
+				this.known.set(file.path, { content: await this.vault.cachedRead(file), mtime: file.stat.mtime, verified: true });
+			} catch {
+				// Unreadable files just can't be diffed
+				this.known.delete(file.path);
+			}
+		}
+	}
+
+	/** Update a file's last seen content, returning it (undefined if not text or too large) */
+	private async remember(file: TFile): Promise<string | undefined> {
+		if (!isTextFile(file) || file.stat.size > MAX_SNAPSHOT_BYTES) {
+			this.known.delete(file.path);
+			return undefined;
+		}
+		const content = await this.vault.cachedRead(file);
+		this.known.set(file.path, { content, mtime: file.stat.mtime, verified: true });
+		return content;
+	}
+
+	/** Last seen content of a file, or undefined if it wasn't read or hasn't been checked yet */
+	private knownContent(path: string): string | undefined {
+		const snapshot = this.known.get(path);
+		return snapshot?.verified ? snapshot.content : undefined;
+	}
+
+	private record(path: string, change: Omit<FileChange, "path">) {
+		this.changes.set(path, { path, ...change });
+		this.trigger("changed");
+	}
+
+	private onCreate(file: TAbstractFile) {
+		if (!(file instanceof TFile)) return;
+		const own = this.ownWrites.has(file.path);
+		this.trigger("file-changed", file.path, null);
+		void this.remember(file);
+		if (own) return;
+
+		const previous = this.changes.get(file.path);
+		if (previous?.deleted) {
+			// Deleted and recreated: compare against the content before the session
+			this.record(file.path, { ...previous, deleted: false });
+		} else if (!previous) {
+			this.record(file.path, { original: null, deleted: false });
+		}
+	}
+
+	private async onModify(file: TAbstractFile) {
+		if (!(file instanceof TFile)) return;
+		const own = this.ownWrites.has(file.path);
+		const before = this.knownContent(file.path);
+		this.trigger("file-changed", file.path, before);
+
+		const previous = this.changes.get(file.path);
+		if (!own && !previous) this.record(file.path, { original: before, deleted: false });
+		const content = await this.remember(file);
+		if (own || !previous) return;
+
+		// Edited back to the original: no longer a change
+		if (typeof previous.original === "string" && !previous.originalPath && content === previous.original) {
+			this.changes.delete(file.path);
+		}
+		this.trigger("changed");
+	}
+
+	private onDelete(file: TAbstractFile) {
+		if (!(file instanceof TFile)) return;
+		const before = this.knownContent(file.path);
+		this.known.delete(file.path);
+		this.trigger("file-changed", file.path, before);
+		if (this.ownWrites.has(file.path)) return;
+
+		const previous = this.changes.get(file.path);
+		if (previous?.original === null) {
+			// Created and deleted within the session: nothing left to review
+			this.changes.delete(file.path);
+			this.trigger("changed");
+			return;
+		}
+		this.record(file.path, {
+			original: previous ? previous.original : before,
+			originalPath: previous?.originalPath,
+			deleted: true,
+		});
+	}
+
+	private onRename(file: TAbstractFile, oldPath: string) {
+		if (!(file instanceof TFile)) return;
+		const snapshot = this.known.get(oldPath);
+		const before = this.knownContent(oldPath);
+		this.known.delete(oldPath);
+		if (snapshot) this.known.set(file.path, snapshot);
+		// A rename is a deletion of the old path and a creation of the new one
+		this.trigger("file-changed", oldPath, before);
+		this.trigger("file-changed", file.path, null);
+		if (this.ownWrites.has(oldPath)) return;
+
+		const previous = this.changes.get(oldPath);
+		this.changes.delete(oldPath);
+		const originalPath = previous ? previous.originalPath ?? (previous.original === null ? undefined : oldPath) : oldPath;
+		this.record(file.path, {
+			original: previous ? previous.original : before,
+			originalPath: originalPath === file.path ? undefined : originalPath,
+			deleted: false,
+		});
+	}
+}
@@ -0,0 +1,46 @@
+import { App, FuzzySuggestModal, FuzzyMatch } from "obsidian";
+import type { ClaudeSession } from "./claude-sessions";
+
+/**
+ * Fuzzy picker over past Claude sessions. Matches against the first prompt
+ * and summary; each row shows the prompt, when the session was last active
+ * and how many messages it has.
+ */
+export class SessionPickerModal extends FuzzySuggestModal<ClaudeSession> {
+	private sessions: ClaudeSession[];
+	private onPick: (session: ClaudeSession) => void;
+
+	constructor(app: App, sessions: ClaudeSession[], onPick: (session: ClaudeSession) => void) {
+		super(app);
+		this.sessions = sessions;
+		this.onPick = onPick;
+		this.setPlaceholder("Search past Claude sessions…");
+		this.emptyStateText = "No matching sessions";
+	}
+
+	getItems(): ClaudeSession[] {
+		return this.sessions;
+	}
+
+	getItemText(session: ClaudeSession): string {
+		return [session.firstPrompt, session.summary ?? "", session.id].join(" ");
+	}
+
+	renderSuggestion(match: FuzzyMatch<ClaudeSession>, el: HTMLElement) {
+		const session = match.item;
+		el.addClass("claude-session-suggestion");
+		el.createDiv({
+			cls: "claude-session-prompt",
+			text: session.firstPrompt || session.summary || "(no prompt)",
+		});
+		const meta = [
+			session.timestamp ? session.timestamp.toLocaleString() : "unknown date",
+			`${session.messageCount} message${session.messageCount === 1 ? "" : "s"}`,
+		];
+		el.createDiv({ cls: "claude-session-meta", text: meta.join(" · ") });
+	}
+
+	onChooseItem(session: ClaudeSession) {
+		this.onPick(session);
+	}
+}
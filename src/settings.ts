@@ -1,5 +1,44 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, ExtraButtonComponent, Notice, Platform, PluginSettingTab, Setting } from "obsidian";
 import type ClaudeTerminalPlugin from "./main";
+import type { FontWeight } from "@xterm/xterm";
+import { DEFAULT_SETTINGS } from "./constants";
+import type { LaunchProfile, CustomAction, RestartPolicy, NotificationMode, KeyBinding, KeyAction, TerminalColors } from "./constants";
+import { createProfileId, parseEnv, formatEnv } from "./profiles";
+import { renderTemplate, TemplateContext, TEMPLATE_VARIABLES } from "./templates";
+import { parseKeyCombo, formatKeyEvent } from "./key-bindings";
+import {
+	ThemeMode,
+	THEME_PRESETS,
+	TERMINAL_COLOR_KEYS,
+	COLOR_LABELS,
+	emptyColors,
+	presetColors,
+	resolveTerminalTheme,
+	isHexColor,
+} from "./terminal-theme";
+import { importThemeFile, ImportedTheme } from "./theme-import";
+import {
+	CursorStyle,
+	CURSOR_STYLES,
+	FONT_WEIGHTS,
+	FONT_WEIGHT_LABELS,
+	TYPOGRAPHY_LIMITS,
+	parseFontList,
+	parseNumberSetting,
+	buildFontFamily,
+} from "./terminal-typography";
+
+/** Sample values used to preview message templates */
+const PREVIEW_CONTEXT: TemplateContext = {
+	path: "Projects/Alpha/Plan.md",
+	paths: ["Projects/Alpha/Plan.md", "Projects/Alpha/Notes.md"],
+	selection: "- [ ] Ship v2",
+	startLine: 12,
+	endLine: 14,
+	title: "Plan",
+	frontmatter: { status: "active", tags: ["project/alpha"] },
+	date: new Date(),
+};
 
 function debounce<T extends (...args: any[]) => any>(fn: T, ms: number): T {
 	let timer: ReturnType<typeof setTimeout>;
@@ -9,8 +48,73 @@ function debounce<T extends (...args: any[]) => any>(fn: T, ms: number): T {
 	}) as any;
 }
 
+const GENERIC_FONTS = new Set(["monospace", "serif", "sans-serif", "ui-monospace", "system-ui"]);
+
+/**
+ * Whether a font is installed: text in it measures differently from at
+ * least one generic family it would otherwise fall back to.
+ */
+function isFontInstalled(family: string): boolean {
+	if (GENERIC_FONTS.has(family.toLowerCase())) return true;
+	const context = document.createElement("canvas").getContext("2d");
+	if (!context) return true;
+	const sample = "mmmmmmmmmwwwwwlli10O";
+	return ["monospace", "serif", "sans-serif"].some((generic) => {
+		context.font = `72px ${generic}`;
+		const width = context.measureText(sample).width;
+		context.font = `72px "${family.replace(/["\\]/g, "\\$&")}", ${generic}`;
+		return context.measureText(sample).width !== width;
+	});
+}
+
+/** A few lines of sample terminal output drawn with the current font, cursor and colors */
+class TypographyPreview {
+	private cursorEl: HTMLElement;
+
+	constructor(private containerEl: HTMLElement, private plugin: ClaudeTerminalPlugin) {
+		containerEl.addClass("claude-typography-preview");
+		const line = (...parts: [string, string?][]) => {
+			const lineEl = containerEl.createDiv();
+			for (const [text, color] of parts) {
+				lineEl.createSpan({ text, cls: color ? `claude-typography-${color}` : undefined });
+			}
+			return lineEl;
+		};
+		line(["~/vault", "blue"], [" $ git log --oneline -3"]);
+		line(["3f2c1ab", "yellow"], [" Fix link parsing => handle [[a|b]] != [[a]]"]);
+		line(["✓ 12 passed", "bold"], [" (340 ms) -> 0 failed <= 2 skipped"]);
+		this.cursorEl = line(["~/vault", "blue"], [" $ "]).createSpan({ text: " ", cls: "claude-typography-cursor" });
+		this.update();
+	}
+
+	update() {
+		const settings = this.plugin.settings;
+		const theme = this.plugin.getTerminalTheme();
+		this.containerEl.setCssStyles({
+			fontFamily: buildFontFamily(settings.fontFamily, "var(--font-monospace)"),
+			fontSize: `${settings.fontSize}px`,
+			fontWeight: String(settings.fontWeight),
+			// xterm multiplies the font's natural line height, which is about 1.2em
+			lineHeight: String(1.2 * settings.lineHeight),
+			letterSpacing: `${settings.letterSpacing}px`,
+			fontVariantLigatures: settings.ligatures ? "normal" : "none",
+			color: theme.foreground ?? "",
+			backgroundColor: theme.background ?? "",
+		});
+		this.containerEl.style.setProperty("--claude-preview-bold", String(settings.fontWeightBold));
+		this.containerEl.style.setProperty("--claude-preview-blue", theme.blue ?? "");
+		this.containerEl.style.setProperty("--claude-preview-yellow", theme.yellow ?? "");
+		this.containerEl.style.setProperty("--claude-preview-cursor", theme.cursor ?? "");
+		this.containerEl.style.setProperty("--claude-preview-cursor-text", theme.cursorAccent ?? "");
+		this.cursorEl.className = `claude-typography-cursor is-${settings.cursorStyle}`;
+		this.cursorEl.toggleClass("is-blinking", settings.cursorBlink);
+	}
+}
+
 export class ClaudeTerminalSettingTab extends PluginSettingTab {
 	plugin: ClaudeTerminalPlugin;
+	/** Theme color sections left expanded, kept across redraws */
+	private openThemeModes = new Set<ThemeMode>();
 
 	constructor(app: App, plugin: ClaudeTerminalPlugin) {
 		super(app, plugin);
@@ -24,17 +128,19 @@ export class ClaudeTerminalSettingTab extends PluginSettingTab {
 		const debouncedSave = debounce(() => this.plugin.saveSettings(), 500);
 
 		new Setting(containerEl)
-			.setName("Claude flags")
-			.setDesc("Extra flags passed to claude CLI (e.g. --model opus --allowedTools)")
-			.addText((text) =>
-				text
-					.setPlaceholder("--model opus")
-					.setValue(this.plugin.settings.claudeFlags)
-					.onChange((value) => {
-						this.plugin.settings.claudeFlags = value;
-						debouncedSave();
-					})
-			);
+			.setName("Default profile")
+			.setDesc("Profile launched by \"Open terminal\" and when sending context with no terminal open")
+			.addDropdown((dropdown) => {
+				for (const profile of this.plugin.settings.profiles) {
+					dropdown.addOption(profile.id, profile.name);
+				}
+				dropdown
+					.setValue(this.plugin.settings.defaultProfileId)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultProfileId = value;
+						await this.plugin.saveSettings();
+					});
+			});
 
 		new Setting(containerEl)
 			.setName("Shell path")
@@ -50,83 +156,725 @@ export class ClaudeTerminalSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName("Font size")
-			.setDesc("Terminal font size in pixels")
+			.setName("Focus terminal on context")
+			.setDesc("Bring focus to the terminal when sending files or selections to Claude")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.focusTerminalOnContext)
+					.onChange(async (value) => {
+						this.plugin.settings.focusTerminalOnContext = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Restore scrollback")
+			.setDesc("Keep the terminal transcript across Obsidian restarts and replay it when the terminal reopens")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.restoreScrollback)
+					.onChange(async (value) => {
+						this.plugin.settings.restoreScrollback = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Vault MCP server")
+			.setDesc("Run a local MCP server (loopback only, token-protected) that gives Claude Obsidian's link graph, tags, properties, search and the active note. Claude profiles are launched with it automatically; restart terminals to pick up a change.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.mcpServer)
+					.onChange(async (value) => {
+						this.plugin.settings.mcpServer = value;
+						await this.plugin.saveSettings();
+						if (value) await this.plugin.startMcpServer();
+						else this.plugin.stopMcpServer();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Checkpoints")
+			.setDesc("Each time you submit a prompt in a Claude terminal, remember the files changed afterwards so the vault can be restored to that point with \"Show checkpoints\". Stored in the plugin folder; the last 100 are kept.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.checkpoints)
+					.onChange(async (value) => {
+						this.plugin.settings.checkpoints = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Change tracking memory")
+			.setDesc("Megabytes of vault text read when a terminal starts and kept in memory, so the first change to a file can be diffed, reverted and checkpointed. " +
+				"Files beyond this show as changed without their earlier content. Set to 0 to read nothing up front.")
 			.addSlider((slider) =>
 				slider
-					.setLimits(10, 24, 1)
-					.setValue(this.plugin.settings.fontSize)
+					.setLimits(0, 128, 4)
+					.setValue(this.plugin.settings.baselineSizeMB)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						this.plugin.settings.baselineSizeMB = value;
+						debouncedSave();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Adding notes" });
+
+		new Setting(containerEl)
+			.setName("Link depth")
+			.setDesc("How many hops \"Add note with linked notes\" follows from the starting note")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 5, 1)
+					.setValue(this.plugin.settings.linkDepth)
 					.setDynamicTooltip()
 					.onChange(async (value) => {
-						this.plugin.settings.fontSize = value;
+						this.plugin.settings.linkDepth = value;
 						await this.plugin.saveSettings();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Auto-launch Claude")
-			.setDesc("Automatically run the claude CLI when the terminal opens")
+			.setName("Include backlinks")
+			.setDesc("Also follow notes that link to the collected notes")
 			.addToggle((toggle) =>
 				toggle
-					.setValue(this.plugin.settings.autoLaunch)
+					.setValue(this.plugin.settings.includeBacklinks)
 					.onChange(async (value) => {
-						this.plugin.settings.autoLaunch = value;
+						this.plugin.settings.includeBacklinks = value;
 						await this.plugin.saveSettings();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Focus terminal on context")
-			.setDesc("Bring focus to the terminal when sending files or selections to Claude")
-			.addToggle((toggle) =>
-				toggle
-					.setValue(this.plugin.settings.focusTerminalOnContext)
+			.setName("Maximum notes")
+			.setDesc("Stop collecting once this many notes have been found (nearest first)")
+			.addSlider((slider) =>
+				slider
+					.setLimits(5, 100, 5)
+					.setValue(this.plugin.settings.maxLinkedFiles)
+					.setDynamicTooltip()
 					.onChange(async (value) => {
-						this.plugin.settings.focusTerminalOnContext = value;
+						this.plugin.settings.maxLinkedFiles = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Files per message")
+			.setDesc("Adding more files than this at once writes a manifest note listing them and sends that instead")
+			.addSlider((slider) =>
+				slider
+					.setLimits(5, 100, 5)
+					.setValue(this.plugin.settings.maxFilesPerMessage)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxFilesPerMessage = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Manifest folder")
+			.setDesc("Where manifest notes for large file sets are created")
+			.addText((text) =>
+				text
+					.setPlaceholder("Claude context")
+					.setValue(this.plugin.settings.manifestFolder)
+					.onChange((value) => {
+						this.plugin.settings.manifestFolder = value;
+						debouncedSave();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Profiles" });
+		containerEl.createEl("p", {
+			text: "Each profile gets an \"Open terminal: <name>\" command. Command and ribbon changes apply after reloading the plugin.",
+			cls: "setting-item-description",
+		});
+
+		for (const profile of this.plugin.settings.profiles) {
+			this.displayProfile(containerEl, profile, debouncedSave);
+		}
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add profile")
+					.onClick(async () => {
+						this.plugin.settings.profiles.push({
+							id: createProfileId(),
+							name: "New profile",
+							command: "",
+							args: "",
+							cwd: "",
+							env: {},
+							icon: "terminal-square",
+							showInRibbon: false,
+							restart: "never",
+							notifications: "desktop",
+						});
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Message templates" });
+		containerEl.createEl("p", {
+			text: `Variables: ${TEMPLATE_VARIABLES.join(", ")}. {{paths}} inserts @mentions. ` +
+				"Wrap text in {{#name}}…{{/name}} to keep it only when the variable is set.",
+			cls: "setting-item-description",
+		});
+
+		const { templates } = this.plugin.settings;
+		this.addTemplateSetting(containerEl, "Add note", "Sent by \"Add current note\" with one file, and for selections too large to paste (with {{startLine}} and {{endLine}})",
+			templates.addNote, (value) => { templates.addNote = value; debouncedSave(); });
+		this.addTemplateSetting(containerEl, "Add notes", "Sent when adding several files at once",
+			templates.addNotes, (value) => { templates.addNotes = value; debouncedSave(); });
+		this.addTemplateSetting(containerEl, "Send selection", "Sent by \"Send selection\" when the text comes from a note",
+			templates.sendSelection, (value) => { templates.sendSelection = value; debouncedSave(); });
+
+		containerEl.createEl("h4", { text: "Custom actions" });
+		containerEl.createEl("p", {
+			text: "Each action becomes a command and a file menu entry. Changes apply after reloading the plugin.",
+			cls: "setting-item-description",
+		});
+
+		for (const action of this.plugin.settings.customActions) {
+			this.displayCustomAction(containerEl, action, debouncedSave);
+		}
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add action")
+					.onClick(async () => {
+						this.plugin.settings.customActions.push({
+							id: `action-${Date.now().toString(36)}`,
+							name: "Summarize note",
+							template: "Summarize @{{path}} ",
+						});
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Key bindings" });
+		containerEl.createEl("p", {
+			text: "What keys do while a terminal has focus. Keys not listed reach both the terminal and Obsidian's hotkeys. " +
+				"Click a key field and press the combination. Text can use \\n, \\r, \\t, \\e (Esc) and \\xHH.",
+			cls: "setting-item-description",
+		});
+
+		for (const binding of this.plugin.settings.keyBindings) {
+			this.displayKeyBinding(containerEl, binding, debouncedSave);
+		}
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Add key binding")
+					.onClick(async () => {
+						this.plugin.settings.keyBindings.push({ key: "", action: "send", text: "" });
 						await this.plugin.saveSettings();
+						this.display();
 					})
 			);
 
+		if (Platform.isMacOS) {
+			new Setting(containerEl)
+				.setName("Option as Meta")
+				.setDesc("Option sends Meta (Esc-prefixed) keys, as shells and Claude expect. Turn off to type special characters with Option.")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.optionAsMeta)
+						.onChange(async (value) => {
+							this.plugin.settings.optionAsMeta = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		containerEl.createEl("h3", { text: "Font and cursor" });
+		this.displayTypography(containerEl, debouncedSave);
+
 		containerEl.createEl("h3", { text: "Theme" });
 		containerEl.createEl("p", {
-			text: "Leave blank to auto-detect from Obsidian theme.",
+			text: "Colors for Obsidian's dark and light modes; terminals switch with the mode. " +
+				"Colors set to auto follow the Obsidian theme.",
 			cls: "setting-item-description",
 		});
+		this.displayTheme(containerEl, "dark", debouncedSave);
+		this.displayTheme(containerEl, "light", debouncedSave);
+	}
+
+	private displayProfile(containerEl: HTMLElement, profile: LaunchProfile, save: () => void) {
+		const { profiles } = this.plugin.settings;
+
+		new Setting(containerEl)
+			.setName(profile.name || "Untitled profile")
+			.setHeading()
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete profile")
+					.setDisabled(profiles.length <= 1)
+					.onClick(async () => {
+						this.plugin.settings.profiles = profiles.filter((p) => p !== profile);
+						if (this.plugin.settings.defaultProfileId === profile.id) {
+							this.plugin.settings.defaultProfileId = this.plugin.settings.profiles[0].id;
+						}
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
 
 		new Setting(containerEl)
-			.setName("Background color")
+			.setName("Name")
 			.addText((text) =>
 				text
-					.setPlaceholder("#1e1e2e")
-					.setValue(this.plugin.settings.theme.background)
+					.setValue(profile.name)
 					.onChange((value) => {
-						this.plugin.settings.theme.background = value;
-						debouncedSave();
+						profile.name = value;
+						save();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Foreground color")
+			.setName("Command")
+			.setDesc("Program to run. Leave blank to start your login shell.")
 			.addText((text) =>
 				text
-					.setPlaceholder("#cdd6f4")
-					.setValue(this.plugin.settings.theme.foreground)
+					.setPlaceholder("claude")
+					.setValue(profile.command)
 					.onChange((value) => {
-						this.plugin.settings.theme.foreground = value;
-						debouncedSave();
+						profile.command = value;
+						save();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Cursor color")
+			.setName("Arguments")
+			.setDesc("Extra arguments (e.g. --model opus --allowedTools \"Edit,Bash\")")
 			.addText((text) =>
 				text
-					.setPlaceholder("#f5e0dc")
-					.setValue(this.plugin.settings.theme.cursor)
+					.setPlaceholder("--model opus")
+					.setValue(profile.args)
 					.onChange((value) => {
-						this.plugin.settings.theme.cursor = value;
-						debouncedSave();
+						profile.args = value;
+						save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Working directory")
+			.setDesc("Blank for the vault root. Relative paths are resolved from the vault root.")
+			.addText((text) =>
+				text
+					.setPlaceholder("projects/alpha")
+					.setValue(profile.cwd)
+					.onChange((value) => {
+						profile.cwd = value;
+						save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Environment")
+			.setDesc("One KEY=value per line")
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("ANTHROPIC_MODEL=opus")
+					.setValue(formatEnv(profile.env))
+					.onChange((value) => {
+						profile.env = parseEnv(value);
+						save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Icon")
+			.setDesc("Lucide icon name used for the tab and ribbon")
+			.addText((text) =>
+				text
+					.setPlaceholder("sparkles")
+					.setValue(profile.icon)
+					.onChange((value) => {
+						profile.icon = value.trim();
+						save();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Restart on exit")
+			.setDesc("Start the program again when it exits. Repeated quick exits back off up to 30 seconds.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("never", "Never")
+					.addOption("on-failure", "On failure (non-zero exit)")
+					.addOption("always", "Always")
+					.setValue(profile.restart)
+					.onChange(async (value) => {
+						profile.restart = value as RestartPolicy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Notifications")
+			.setDesc("Notifications the program sends (OSC 9 and 777), such as Claude asking for permission")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("desktop", "Notice, and desktop when Obsidian is in the background")
+					.addOption("notice", "Notice only")
+					.addOption("off", "Muted")
+					.setValue(profile.notifications)
+					.onChange(async (value) => {
+						profile.notifications = value as NotificationMode;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Show in ribbon")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(profile.showInRibbon)
+					.onChange(async (value) => {
+						profile.showInRibbon = value;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	private displayCustomAction(containerEl: HTMLElement, action: CustomAction, save: () => void) {
+		new Setting(containerEl)
+			.setName("Name")
+			.addText((text) =>
+				text
+					.setValue(action.name)
+					.onChange((value) => {
+						action.name = value;
+						save();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete action")
+					.onClick(async () => {
+						this.plugin.settings.customActions =
+							this.plugin.settings.customActions.filter((a) => a !== action);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		this.addTemplateSetting(containerEl, "Template", "", action.template, (value) => {
+			action.template = value;
+			save();
+		});
+	}
+
+	private displayKeyBinding(containerEl: HTMLElement, binding: KeyBinding, save: () => void) {
+		const setting = new Setting(containerEl).setClass("claude-key-binding");
+		setting
+			.addText((text) => {
+				text.setPlaceholder("Press keys").setValue(binding.key);
+				const validate = () => text.inputEl.toggleClass("is-invalid", !!binding.key && !parseKeyCombo(binding.key));
+				validate();
+				text.onChange((value) => {
+					binding.key = value.trim();
+					validate();
+					save();
+				});
+				// Record the combination instead of typing it; plain Tab still moves focus
+				text.inputEl.addEventListener("keydown", (e) => {
+					if (e.key === "Tab" && !e.ctrlKey && !e.metaKey && !e.altKey) return;
+					const combo = formatKeyEvent(e, Platform.isMacOS);
+					e.preventDefault();
+					if (!combo) return;
+					text.setValue(combo);
+					binding.key = combo;
+					validate();
+					save();
+				});
+			})
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("send", "Send text")
+					.addOption("clear", "Clear terminal")
+					.addOption("terminal", "Keep in terminal")
+					.addOption("obsidian", "Obsidian hotkey only")
+					.setValue(binding.action)
+					.onChange(async (value) => {
+						binding.action = value as KeyAction;
+						await this.plugin.saveSettings();
+						this.display();
 					})
 			);
+
+		if (binding.action === "send") {
+			setting.addText((text) =>
+				text
+					.setPlaceholder("\\n")
+					.setValue(binding.text)
+					.onChange((value) => {
+						binding.text = value;
+						save();
+					})
+			);
+		}
+
+		setting.addExtraButton((button) =>
+			button
+				.setIcon("trash")
+				.setTooltip("Delete key binding")
+				.onClick(async () => {
+					this.plugin.settings.keyBindings = this.plugin.settings.keyBindings.filter((b) => b !== binding);
+					await this.plugin.saveSettings();
+					this.display();
+				})
+		);
+	}
+
+	/** Font, spacing, cursor and scrollback settings, with a sample terminal that follows them */
+	private displayTypography(containerEl: HTMLElement, debouncedSave: () => void) {
+		const settings = this.plugin.settings;
+		const preview = new TypographyPreview(containerEl.createDiv(), this.plugin);
+		const changed = () => {
+			preview.update();
+			debouncedSave();
+		};
+
+		new Setting(containerEl)
+			.setName("Font size")
+			.setDesc("Terminal font size in pixels")
+			.addSlider((slider) =>
+				slider
+					.setLimits(10, 24, 1)
+					.setValue(settings.fontSize)
+					.setDynamicTooltip()
+					.onChange((value) => {
+						settings.fontSize = value;
+						changed();
+					})
+			);
+
+		const family = new Setting(containerEl).setName("Font family");
+		const describeFamily = () => {
+			const missing = parseFontList(settings.fontFamily).filter((name) => !isFontInstalled(name));
+			family.setDesc(missing.length > 0
+				? `Not installed: ${missing.join(", ")}. The next font in the list is used instead.`
+				: "Fonts to try in order, separated by commas. Obsidian's monospace font is used after them.");
+			family.descEl.toggleClass("mod-warning", missing.length > 0);
+		};
+		describeFamily();
+		family.addText((text) =>
+			text
+				.setPlaceholder("JetBrains Mono, Menlo")
+				.setValue(settings.fontFamily)
+				.onChange((value) => {
+					settings.fontFamily = value.trim();
+					describeFamily();
+					changed();
+				})
+		);
+
+		const addWeight = (name: string, key: "fontWeight" | "fontWeightBold") =>
+			new Setting(containerEl)
+				.setName(name)
+				.addDropdown((dropdown) => {
+					for (const weight of FONT_WEIGHTS) dropdown.addOption(String(weight), `${weight} · ${FONT_WEIGHT_LABELS[weight]}`);
+					dropdown
+						.setValue(String(settings[key]))
+						.onChange((value) => {
+							settings[key] = value as FontWeight;
+							changed();
+						});
+				});
+		addWeight("Font weight", "fontWeight").setDesc("Thin weights can be hard to read on low-resolution screens");
+		addWeight("Bold font weight", "fontWeightBold").setDesc("Used for text programs print in bold");
+
+		this.addNumberSetting(containerEl, "Line height", "Multiple of the font's line height, from 1 to 2", "lineHeight", changed);
+		this.addNumberSetting(containerEl, "Letter spacing", "Extra pixels between characters, from -2 to 10", "letterSpacing", changed);
+
+		new Setting(containerEl)
+			.setName("Ligatures")
+			.setDesc("Let fonts with programming ligatures (Fira Code, JetBrains Mono, Cascadia Code) join symbols like => and !=")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.ligatures)
+					.onChange((value) => {
+						settings.ligatures = value;
+						changed();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Cursor")
+			.addDropdown((dropdown) => {
+				for (const [style, label] of Object.entries(CURSOR_STYLES)) dropdown.addOption(style, label);
+				dropdown
+					.setValue(settings.cursorStyle)
+					.onChange((value) => {
+						settings.cursorStyle = value as CursorStyle;
+						changed();
+					});
+			})
+			.addToggle((toggle) =>
+				toggle
+					.setTooltip("Blink")
+					.setValue(settings.cursorBlink)
+					.onChange((value) => {
+						settings.cursorBlink = value;
+						changed();
+					})
+			);
+
+		this.addNumberSetting(containerEl, "Scrollback", "Lines kept above the screen, up to 100,000", "scrollback", changed);
+	}
+
+	/** Text field for a numeric typography option; out-of-range values are marked and not saved */
+	private addNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: keyof typeof TYPOGRAPHY_LIMITS,
+		changed: () => void,
+	) {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.setClass("claude-number-setting")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.inputEl.step = TYPOGRAPHY_LIMITS[key].integer ? "1" : "0.1";
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+					.setValue(String(this.plugin.settings[key]))
+					.onChange((value) => {
+						const parsed = parseNumberSetting(value, TYPOGRAPHY_LIMITS[key]);
+						text.inputEl.toggleClass("is-invalid", parsed === null);
+						if (parsed === null) return;
+						this.plugin.settings[key] = parsed;
+						changed();
+					});
+			});
+	}
+
+	/** Preset picker, file import and a color picker per terminal color for one mode */
+	private displayTheme(containerEl: HTMLElement, mode: ThemeMode, debouncedSave: () => void) {
+		const colors = this.plugin.settings.theme[mode];
+		const replaceColors = async (next: TerminalColors) => {
+			this.plugin.settings.theme[mode] = next;
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		const presets = THEME_PRESETS.filter((preset) => preset.mode === mode);
+		new Setting(containerEl)
+			.setName(mode === "dark" ? "Dark mode" : "Light mode")
+			.setHeading()
+			.addDropdown((dropdown) => {
+				dropdown.addOption("", "Apply preset…");
+				presets.forEach((preset, i) => dropdown.addOption(String(i), preset.name));
+				dropdown.onChange(async (value) => {
+					if (value) await replaceColors(presetColors(presets[Number(value)]));
+				});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText("Import…")
+					.setTooltip("iTerm2 .itermcolors, Windows Terminal JSON or base16 YAML")
+					.onClick(() => this.pickThemeFile(async (theme) => {
+						await replaceColors({ ...emptyColors(), ...theme.colors });
+						new Notice(`Imported "${theme.name}" for ${mode} mode.`);
+					}))
+			);
+
+		const details = containerEl.createEl("details", { cls: "claude-theme-colors" });
+		details.open = this.openThemeModes.has(mode);
+		details.addEventListener("toggle", () => {
+			if (details.open) this.openThemeModes.add(mode);
+			else this.openThemeModes.delete(mode);
+		});
+		details.createEl("summary", { text: "Colors" });
+
+		// Blank colors are shown with the value they currently resolve to
+		const style = getComputedStyle(document.body);
+		const resolved = resolveTerminalTheme(colors, (name) => style.getPropertyValue(name).trim());
+		for (const key of TERMINAL_COLOR_KEYS) {
+			const setting = new Setting(details).setName(COLOR_LABELS[key]);
+			const describe = () => setting.setDesc(colors[key] ? colors[key] : "Auto");
+			describe();
+			let reset: ExtraButtonComponent | null = null;
+			setting
+				.addColorPicker((picker) => {
+					const shown = colors[key] || resolved[key] || "";
+					if (isHexColor(shown)) picker.setValue(shown);
+					picker.onChange((value) => {
+						colors[key] = value;
+						describe();
+						reset?.setDisabled(false);
+						// Recolor now; saving (which applies it again) is debounced while dragging
+						this.plugin.applySettings();
+						debouncedSave();
+					});
+				})
+				.addExtraButton((button) => {
+					reset = button;
+					button
+						.setIcon("rotate-ccw")
+						.setTooltip("Use the Obsidian theme color")
+						.setDisabled(!colors[key])
+						.onClick(async () => {
+							colors[key] = "";
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		}
+	}
+
+	/** Ask for a theme file and parse it; errors are shown as a notice */
+	private pickThemeFile(onImport: (theme: ImportedTheme) => void) {
+		const input = createEl("input", { attr: { type: "file", accept: ".itermcolors,.json,.yaml,.yml" } });
+		input.addEventListener("change", async () => {
+			const file = input.files?.[0];
+			if (!file) return;
+			try {
+				onImport(importThemeFile(file.name, await file.text()));
+			} catch (e) {
+				new Notice(`Couldn't import ${file.name}: ${e instanceof Error ? e.message : e}`);
+			}
+		});
+		input.click();
+	}
+
+	/** Template text area with a live preview rendered from sample values */
+	private addTemplateSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		value: string,
+		onChange: (value: string) => void,
+	) {
+		const setting = new Setting(containerEl).setName(name).setDesc(desc);
+		const preview = setting.descEl.createEl("pre", { cls: "claude-template-preview" });
+		const update = (template: string) => preview.setText(renderTemplate(template, PREVIEW_CONTEXT));
+		update(value);
+
+		setting.addTextArea((text) => {
+			text.inputEl.rows = 3;
+			text
+				.setValue(value)
+				.onChange((next) => {
+					update(next);
+					onChange(next);
+				});
+		});
 	}
 }
@@ -0,0 +1,66 @@
+/**
+ * Message templates for sending context to Claude.
+ *
+ * `{{name}}` inserts a variable; `{{#name}}…{{/name}}` keeps its contents
+ * only when the variable is non-empty. Unknown variables render as "".
+ */
+
+export interface TemplateContext {
+	path?: string;
+	paths?: string[];
+	selection?: string;
+	startLine?: number;
+	endLine?: number;
+	title?: string;
+	frontmatter?: Record<string, unknown>;
+	date?: Date;
+}
+
+export const TEMPLATE_VARIABLES = [
+	"{{path}}",
+	"{{paths}}",
+	"{{selection}}",
+	"{{startLine}}",
+	"{{endLine}}",
+	"{{title}}",
+	"{{frontmatter.<key>}}",
+	"{{date}}",
+];
+
+const SECTION = /\{\{#\s*([\w.-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export function renderTemplate(template: string, ctx: TemplateContext): string {
+	return template
+		.replace(SECTION, (_, name: string, body: string) => (lookup(name, ctx) ? body : ""))
+		.replace(VARIABLE, (_, name: string) => lookup(name, ctx));
+}
+
+function lookup(name: string, ctx: TemplateContext): string {
+	if (name.startsWith("frontmatter.")) {
+		return stringify(ctx.frontmatter?.[name.slice("frontmatter.".length)]);
+	}
+	switch (name) {
+		case "path": return ctx.path ?? "";
+		case "paths": return (ctx.paths ?? (ctx.path ? [ctx.path] : [])).map((p) => `@${p}`).join(" ");
+		case "selection": return ctx.selection ?? "";
+		case "startLine": return ctx.startLine !== undefined ? String(ctx.startLine) : "";
+		case "endLine": return ctx.endLine !== undefined ? String(ctx.endLine) : "";
+		case "title": return ctx.title ?? "";
+		case "date": return ctx.date ? formatDate(ctx.date) : "";
+		default: return "";
+	}
+}
+
+function stringify(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	if (Array.isArray(value)) return value.map(stringify).join(", ");
+	if (typeof value === "object") return JSON.stringify(value);
+	return String(value);
+}
+
+/** Local date as YYYY-MM-DD */
+function formatDate(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,29 @@
+/**
+ * Notifications sent by programs with OSC escape sequences: OSC 9 (iTerm2,
+ * used by Claude Code) and OSC 777 (urxvt's `notify` extension).
+ */
+
+export interface TerminalNotification {
+	title?: string;
+	body: string;
+}
+
+/**
+ * Parse an OSC 9 payload (the text after `9;`). ConEmu uses numeric
+ * subcommands such as `4;1;50` (progress) on the same code; those are not
+ * notifications and return null.
+ */
+export function parseOsc9(data: string): TerminalNotification | null {
+	if (/^\d+(;|$)/.test(data)) return null;
+	const body = data.trim();
+	return body ? { body } : null;
+}
+
+/** Parse an OSC 777 payload: `notify;<title>;<body>` (the body may contain semicolons) */
+export function parseOsc777(data: string): TerminalNotification | null {
+	const [command, title = "", ...rest] = data.split(";");
+	if (command !== "notify") return null;
+	const body = rest.join(";").trim();
+	if (!body) return title.trim() ? { body: title.trim() } : null;
+	return title.trim() ? { title: title.trim(), body } : { body };
+}
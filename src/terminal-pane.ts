@@ -0,0 +1,815 @@
+import { App, Menu, Notice, Platform, Scope } from "obsidian";
+import { Terminal, IDisposable } from "@xterm/xterm";
+import { FitAddon } from "@xterm/addon-fit";
+import { Unicode11Addon } from "@xterm/addon-unicode11";
+import { WebLinksAddon } from "@xterm/addon-web-links";
+import { WebglAddon } from "@xterm/addon-webgl";
+import { SerializeAddon } from "@xterm/addon-serialize";
+import type { LaunchProfile, KeyBinding } from "./constants";
+import { PtyManager } from "./pty-manager";
+import { parseCommand } from "./parse-command";
+import { getProfile, resolveProfileCwd, isClaudeProfile, findShellProfile } from "./profiles";
+import { joinWrappedLines, BufferLine } from "./terminal-text";
+import { exportTerminalToNote } from "./export-note";
+import { FindBar } from "./find-bar";
+import { VaultLinkProvider } from "./vault-links";
+import { ActivityTracker, ProcessStatus, STABLE_RUN_MS, shouldRestart, restartDelay } from "./process-status";
+import { ExitBanner } from "./exit-banner";
+import { updatePromptBuffer, isPromptSubmission } from "./checkpoints";
+import { cleanTitle, paneTitle } from "./terminal-title";
+import { TerminalNotification, parseOsc9, parseOsc777 } from "./terminal-notifications";
+import { TerminalProgress, NO_PROGRESS, updateProgress, isActive } from "./terminal-progress";
+import { findKeyBinding, parseKeyCombo, decodeKeySequence } from "./key-bindings";
+import { terminalOptions, findLigatures } from "./terminal-typography";
+import { scrollbackToRestore, scrollbackToSave, replayScrollback, formatDivider } from "./scrollback-restore";
+import type { FocusDirection, SplitDirection } from "./pane-layout";
+import type ClaudeTerminalPlugin from "./main";
+import type { TerminalView } from "./terminal-view";
+
+const MAX_LAYOUT_RETRIES = 200; // ~3.3s at 60fps
+const NOTICE_DURATION_MS = 10000;
+
+/** Which part of the terminal buffer to capture */
+export type BufferScope = "scrollback" | "screen" | "selection";
+
+export interface PaneState {
+	/** Launch profile this pane was opened with */
+	profileId?: string;
+	/** Vault-relative working directory, overriding the profile's cwd */
+	cwd?: string;
+	/** Claude session to resume on first spawn (not persisted) */
+	resume?: string;
+	/** Serialized xterm buffer (ANSI, including colors) from the previous session */
+	scrollback?: string;
+	/** Name given with "Rename terminal" */
+	title?: string;
+	/** Last window title set by the program (OSC 0/2) */
+	programTitle?: string;
+}
+
+/** Read a pane's saved state, dropping fields that aren't strings */
+export function parsePaneState(raw: unknown): PaneState {
+	if (!raw || typeof raw !== "object") return {};
+	const saved = raw as Record<string, unknown>;
+	const state: PaneState = {};
+	for (const key of ["profileId", "cwd", "resume", "scrollback", "title", "programTitle"] as const) {
+		const value = saved[key];
+		if (typeof value === "string") state[key] = value;
+	}
+	return state;
+}
+
+/**
+ * Resolve Obsidian's monospace font by probing a temporary element that
+ * uses the same CSS variable chain Obsidian applies to code blocks.
+ */
+function resolveMonospaceFont(): string {
+	const probe = document.body.createEl("span", {
+		attr: { style: "font-family: var(--font-monospace, var(--font-monospace-default)); position: absolute; visibility: hidden;" },
+	});
+	const font = getComputedStyle(probe).fontFamily || "monospace";
+	probe.remove();
+	return font;
+}
+
+const FOCUS_KEYS: Record<string, FocusDirection> = {
+	ArrowLeft: "left",
+	ArrowRight: "right",
+	ArrowUp: "up",
+	ArrowDown: "down",
+};
+
+/**
+ * One terminal inside a TerminalView: an xterm instance with its own PTY,
+ * launch profile and addons. Panes are arranged by the view's split layout.
+ */
+export class TerminalPane {
+	/** Element holding the xterm, placed in the layout by the view */
+	readonly containerEl: HTMLElement;
+	private app: App;
+	private view: TerminalView;
+	private terminal: Terminal | null = null;
+	private fitAddon: FitAddon | null = null;
+	private serializeAddon: SerializeAddon | null = null;
+	private findBar: FindBar | null = null;
+	private ptyManager: PtyManager | null = null;
+	private resizeObserver: ResizeObserver | null = null;
+	private resizeDisposable: IDisposable | null = null;
+	private plugin: ClaudeTerminalPlugin;
+	private inputDisposable: IDisposable | null = null;
+	private focusDisposable: IDisposable | null = null;
+	private titleDisposable: IDisposable | null = null;
+	private oscDisposables: IDisposable[] = [];
+	/** Character joiner registered while ligatures are on */
+	private ligatureJoinerId: number | null = null;
+	/** Keymap scope active while the terminal has focus, shielding bound keys from Obsidian hotkeys */
+	private keyScope: Scope | null = null;
+	private abortController: AbortController | null = null;
+	private waitForLayoutId: number | null = null;
+	private restoredScrollback: string | null = null;
+	private profileId: string | null = null;
+	private cwd: string | null = null;
+	private resumeSessionId: string | null = null;
+	private spawnCwd: string | null = null;
+	private customTitle: string | null = null;
+	private programTitle: string | null = null;
+	private _progress: TerminalProgress = NO_PROGRESS;
+	private activity: ActivityTracker | null = null;
+	private exitBanner: ExitBanner | null = null;
+	/** Consecutive automatic restarts, for backoff */
+	private restartAttempts = 0;
+	private spawnedAt = 0;
+	/** Text typed since the last Enter, used to label checkpoints */
+	private promptBuffer = "";
+
+	private _readyResolve: (() => void) | null = null;
+	readonly ready: Promise<void>;
+
+	constructor(view: TerminalView, plugin: ClaudeTerminalPlugin, state: PaneState) {
+		this.view = view;
+		this.app = view.app;
+		this.plugin = plugin;
+		this.containerEl = createDiv({ cls: "claude-terminal-xterm" });
+		this.ready = new Promise<void>((resolve) => {
+			this._readyResolve = resolve;
+		});
+
+		if (state.profileId) this.profileId = state.profileId;
+		if (state.cwd) this.cwd = state.cwd;
+		if (state.resume) this.resumeSessionId = state.resume;
+		if (state.title) this.customTitle = cleanTitle(state.title) || null;
+		if (state.programTitle) this.programTitle = cleanTitle(state.programTitle) || null;
+		this.restoredScrollback = scrollbackToRestore(state.scrollback, plugin.settings.restoreScrollback);
+	}
+
+	/** The launch profile for this pane (falls back to the default profile) */
+	get profile(): LaunchProfile {
+		return getProfile(this.plugin.settings, this.profileId);
+	}
+
+	/** Absolute working directory of the running process, once spawned */
+	get workingDirectory(): string | null {
+		return this.spawnCwd;
+	}
+
+	/** Tab and status bar label: the custom name, the program's title, or the profile and folder */
+	get title(): string {
+		return paneTitle({
+			custom: this.customTitle,
+			program: this.programTitle,
+			profileName: this.profile.name,
+			cwd: this.spawnCwd ?? this.cwd,
+		});
+	}
+
+	/** The name given with "Rename terminal", if any */
+	get customName(): string | null {
+		return this.customTitle;
+	}
+
+	/** Progress reported by the program with OSC 9;4 */
+	get progress(): TerminalProgress {
+		return this._progress;
+	}
+
+	/** Process state for the status bar, derived from output timing */
+	get status(): ProcessStatus {
+		return this.activity?.status ?? { state: "starting" };
+	}
+
+	/** Vault-relative working directory override, if any */
+	get cwdOverride(): string | null {
+		return this.cwd;
+	}
+
+	/** Whether the process has been started (state changes no longer apply) */
+	get isSpawned(): boolean {
+		return this.ptyManager !== null;
+	}
+
+	getState(): PaneState {
+		const state: PaneState = {};
+		if (this.profileId) state.profileId = this.profileId;
+		if (this.cwd) state.cwd = this.cwd;
+		if (this.customTitle) state.title = this.customTitle;
+		if (this.programTitle) state.programTitle = this.programTitle;
+		const scrollback = scrollbackToSave(
+			this.serializeAddon,
+			this.plugin.settings.restoreScrollback,
+			this.restoredScrollback,
+		);
+		if (scrollback) state.scrollback = scrollback;
+		return state;
+	}
+
+	/** Create the terminal; the process starts once the element has a size */
+	open() {
+		this.initTerminal();
+	}
+
+	private initTerminal() {
+		// Clean up any previous terminal (e.g. if open is called twice)
+		this.disposeTerminal();
+
+		this.abortController = new AbortController();
+		const { signal } = this.abortController;
+
+		const settings = this.plugin.settings;
+
+		const theme = this.plugin.getTerminalTheme();
+
+		// Set the container background to match the terminal so padding areas
+		// don't show the default leaf background colour.
+		this.containerEl.style.backgroundColor = theme.background ?? "";
+
+		this.terminal = new Terminal({
+			...terminalOptions(settings, resolveMonospaceFont()),
+			theme,
+			allowProposedApi: true,
+			macOptionIsMeta: settings.optionAsMeta,
+		});
+
+		this.fitAddon = new FitAddon();
+		this.terminal.loadAddon(this.fitAddon);
+		this.terminal.loadAddon(new Unicode11Addon());
+		this.terminal.unicode.activeVersion = "11";
+		this.terminal.loadAddon(new WebLinksAddon());
+		this.terminal.registerLinkProvider(new VaultLinkProvider(this.app, this.terminal, () => this.spawnCwd));
+		this.serializeAddon = new SerializeAddon();
+		this.terminal.loadAddon(this.serializeAddon);
+
+		this.terminal.open(this.containerEl);
+		this.updateLigatures();
+
+		this.findBar = new FindBar(this.containerEl, this.terminal);
+		this.exitBanner = new ExitBanner(this.containerEl);
+		this.terminal.attachCustomKeyEventHandler((e) => {
+			const binding = findKeyBinding(this.plugin.settings.keyBindings, e, Platform.isMacOS);
+			if (binding) return this.handleKeyBinding(binding, e);
+			const mod = Platform.isMacOS ? e.metaKey : e.ctrlKey;
+			if (e.type === "keydown" && mod && !e.shiftKey && !e.altKey && e.key.toLowerCase() === "f") {
+				e.preventDefault();
+				e.stopPropagation();
+				this.openFind();
+				return false;
+			}
+			// Mod+Alt+Arrow moves focus to the neighbouring pane
+			if (e.type === "keydown" && mod && e.altKey && !e.shiftKey && FOCUS_KEYS[e.key]) {
+				e.preventDefault();
+				e.stopPropagation();
+				this.view.focusPaneInDirection(this, FOCUS_KEYS[e.key]);
+				return false;
+			}
+			return true;
+		});
+
+		// Use GPU-accelerated WebGL renderer, fall back to canvas on failure
+		try {
+			const webglAddon = new WebglAddon();
+			webglAddon.onContextLoss(() => webglAddon.dispose());
+			this.terminal.loadAddon(webglAddon);
+		} catch {
+			// Canvas renderer remains active as fallback
+		}
+
+		// Track focus so the plugin knows which terminal was last active
+		this.focusDisposable = this.terminal.onData(() => {
+			this.view.paneFocused(this);
+		});
+		// OSC 0/2 window titles from the program name the tab
+		this.titleDisposable = this.terminal.onTitleChange((title) => {
+			this.programTitle = cleanTitle(title) || null;
+			this.titleChanged();
+		});
+		// OSC 9;4 progress and OSC 9/777 notifications; other OSC 9 subcommands fall through
+		this.oscDisposables = [
+			this.terminal.parser.registerOscHandler(9, (data) =>
+				this.handleProgress(updateProgress(this._progress, data)) || this.handleNotification(parseOsc9(data))),
+			this.terminal.parser.registerOscHandler(777, (data) => this.handleNotification(parseOsc777(data))),
+		];
+		this.containerEl.addEventListener("focus", () => {
+			this.view.paneFocused(this);
+		}, { capture: true, signal });
+		this.containerEl.addEventListener("focusin", () => this.pushKeyScope(), { signal });
+		this.containerEl.addEventListener("focusout", () => this.popKeyScope(), { signal });
+
+		this.containerEl.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			this.showContextMenu(e);
+		}, { signal });
+
+		// Drag-and-drop: accept files dragged from file explorer
+		this.containerEl.addEventListener("dragover", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.containerEl.addClass("claude-terminal-drop-active");
+		}, { signal });
+
+		this.containerEl.addEventListener("dragleave", () => {
+			this.containerEl.removeClass("claude-terminal-drop-active");
+		}, { signal });
+
+		this.containerEl.addEventListener("drop", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.containerEl.removeClass("claude-terminal-drop-active");
+
+			const files = (this.app as any).dragManager?.draggable?.files as string[] | undefined;
+			const dragData = e.dataTransfer?.getData("text/plain");
+
+			if (files && files.length > 0) {
+				this.plugin.addFiles(files);
+			} else if (dragData) {
+				this.plugin.addFiles([dragData]);
+			}
+		}, { signal });
+
+		// Wait for the container to have real dimensions, then fit and spawn.
+		let retries = 0;
+		const waitForLayout = () => {
+			if (!this.terminal) return; // closed during wait
+			const rect = this.containerEl.getBoundingClientRect();
+			if (rect.width > 0 && rect.height > 0) {
+				this.waitForLayoutId = null;
+				this.fitAddon?.fit();
+				this.replayScrollback();
+				this.spawnPty();
+				this.startResizeObserver();
+			} else if (retries++ < MAX_LAYOUT_RETRIES) {
+				this.waitForLayoutId = requestAnimationFrame(waitForLayout);
+			} else {
+				this.waitForLayoutId = null;
+				console.warn("obsidian-shell: terminal container never acquired dimensions");
+				this._readyResolve?.();
+			}
+		};
+		this.waitForLayoutId = requestAnimationFrame(waitForLayout);
+	}
+
+	private showContextMenu(e: MouseEvent) {
+		const menu = new Menu();
+		if (this.terminal?.hasSelection()) {
+			menu.addItem((item) => {
+				item.setTitle("Copy")
+					.setIcon("copy")
+					.onClick(() => {
+						navigator.clipboard.writeText(this.terminal?.getSelection() ?? "");
+					});
+			});
+			menu.addItem((item) => {
+				item.setTitle("Export selection to note")
+					.setIcon("file-output")
+					.onClick(() => exportTerminalToNote(this.app, this, "selection"));
+			});
+		}
+		menu.addItem((item) => {
+			item.setTitle("Export visible screen to note")
+				.setIcon("file-output")
+				.onClick(() => exportTerminalToNote(this.app, this, "screen"));
+		});
+		menu.addItem((item) => {
+			item.setTitle("Export scrollback to note")
+				.setIcon("file-output")
+				.onClick(() => exportTerminalToNote(this.app, this, "scrollback"));
+		});
+		menu.addItem((item) => {
+			item.setTitle("Rename terminal")
+				.setIcon("pencil")
+				.setSection("pane")
+				.onClick(() => this.view.renamePane(this));
+		});
+		this.addSplitItems(menu);
+		menu.showAtMouseEvent(e);
+	}
+
+	/** Split and close entries, shared by the context menu and the view's pane menu */
+	addSplitItems(menu: Menu) {
+		const splits: [SplitDirection, string, string][] = [
+			["vertical", "Split right", "separator-vertical"],
+			["horizontal", "Split down", "separator-horizontal"],
+		];
+		for (const [direction, title, icon] of splits) {
+			menu.addItem((item) => {
+				item.setTitle(title)
+					.setIcon(icon)
+					.setSection("pane")
+					.onClick(() => this.view.splitPane(this, direction));
+			});
+		}
+		menu.addItem((item) => {
+			item.setTitle("Close pane")
+				.setIcon("x")
+				.setSection("pane")
+				.onClick(() => this.view.closePane(this));
+		});
+	}
+
+	/**
+	 * Plain text of the terminal buffer, with soft-wrapped rows re-joined.
+	 * Returns null if there is no terminal or nothing in the requested scope.
+	 */
+	getBufferText(scope: BufferScope): string | null {
+		if (!this.terminal) return null;
+		if (scope === "selection") {
+			return this.terminal.hasSelection() ? this.terminal.getSelection() : null;
+		}
+
+		const buffer = this.terminal.buffer.active;
+		const start = scope === "screen" ? buffer.viewportY : 0;
+		const end = scope === "screen"
+			? Math.min(buffer.length, buffer.viewportY + this.terminal.rows)
+			: buffer.length;
+
+		const lines: BufferLine[] = [];
+		for (let i = start; i < end; i++) {
+			const line = buffer.getLine(i);
+			if (!line) continue;
+			// A wrapped first row has no predecessor in range — treat it as a new line
+			lines.push({ text: line.translateToString(true), isWrapped: line.isWrapped && i > start });
+		}
+		const text = joinWrappedLines(lines).join("\n").trimEnd();
+		return text || null;
+	}
+
+	/**
+	 * Apply a key binding to a key event from xterm. Returns whether xterm
+	 * should still handle the event itself.
+	 */
+	private handleKeyBinding(binding: KeyBinding, e: KeyboardEvent): boolean {
+		switch (binding.action) {
+			case "terminal":
+				return true;
+			case "obsidian":
+				// Left to bubble up to Obsidian's hotkeys
+				return false;
+			case "send":
+			case "clear":
+				if (e.type !== "keydown") return false;
+				// Also stops the browser's keypress, which xterm would otherwise send
+				e.preventDefault();
+				if (binding.action === "clear") this.terminal?.clear();
+				else if (this.status.state !== "exited") this.ptyManager?.write(decodeKeySequence(binding.text));
+				return false;
+		}
+	}
+
+	/**
+	 * While the terminal has focus, keys bound to anything but "obsidian" are
+	 * registered in a scope above the app's, so Obsidian's hotkeys on them
+	 * don't fire. Returning true leaves the event alone for xterm.
+	 */
+	private pushKeyScope() {
+		if (this.keyScope) return;
+		const scope = new Scope(this.app.scope);
+		for (const binding of this.plugin.settings.keyBindings) {
+			const combo = binding.action === "obsidian" ? null : parseKeyCombo(binding.key);
+			if (combo) scope.register(combo.modifiers, combo.key, () => true);
+		}
+		this.app.keymap.pushScope(scope);
+		this.keyScope = scope;
+	}
+
+	private popKeyScope() {
+		if (!this.keyScope) return;
+		this.app.keymap.popScope(this.keyScope);
+		this.keyScope = null;
+	}
+
+	/** Replay the previous session's buffer, once, before the process starts */
+	private replayScrollback() {
+		const scrollback = this.restoredScrollback;
+		this.restoredScrollback = null;
+		if (this.terminal) replayScrollback(this.terminal, scrollback);
+	}
+
+	/** Write a dim full-width rule with a centered label */
+	private writeDivider(text: string) {
+		this.terminal?.write(formatDivider(text, this.terminal.cols));
+	}
+
+	private startResizeObserver() {
+		if (!this.terminal) return;
+
+		let resizeTimeout: ReturnType<typeof setTimeout> | null = null;
+		this.resizeObserver = new ResizeObserver(() => {
+			if (resizeTimeout) clearTimeout(resizeTimeout);
+			resizeTimeout = setTimeout(() => this.fitAddon?.fit(), 50);
+		});
+		this.resizeObserver.observe(this.containerEl);
+
+		this.resizeDisposable = this.terminal.onResize(({ cols, rows }) => {
+			this.ptyManager?.resize(cols, rows);
+		});
+	}
+
+	private spawnPty() {
+		if (!this.terminal) return;
+
+		// Clean up previous PTY and input listener to prevent double keystrokes
+		this.ptyManager?.kill();
+		this.inputDisposable?.dispose();
+		this.inputDisposable = null;
+
+		const vaultPath = (this.app.vault.adapter as any).basePath as string;
+		const settings = this.plugin.settings;
+		const profile = this.profile;
+
+		const args = parseCommand(profile.args);
+		if (this.resumeSessionId) {
+			args.push("--resume", this.resumeSessionId);
+			this.resumeSessionId = null;
+		}
+		// Last, because --mcp-config takes a variable number of values
+		const mcpConfig = isClaudeProfile(profile) ? this.plugin.mcpServer?.claudeConfigFile() : null;
+		if (mcpConfig) args.push("--mcp-config", mcpConfig);
+
+		this.ptyManager = new PtyManager();
+		this.exitBanner?.hide();
+		this.spawnedAt = Date.now();
+		this.activity?.dispose();
+		this.activity = new ActivityTracker(() => this.plugin.updateStatusBar());
+		this.plugin.updateStatusBar();
+		this.spawnCwd = resolveProfileCwd(this.cwd ?? profile.cwd, vaultPath);
+		this.view.titleChanged();
+
+		try {
+			this.ptyManager.spawn({
+				shellPath: settings.shellPath || undefined,
+				cwd: this.spawnCwd,
+				cols: this.terminal.cols,
+				rows: this.terminal.rows,
+				pluginDir: this.plugin.pluginDir,
+				command: profile.command.trim() || undefined,
+				args,
+				env: profile.env,
+				resolvedPath: this.plugin.resolvedPath || undefined,
+			});
+		} catch (err) {
+			this.activity.exit(1);
+			this.terminal.writeln(`\r\n\x1b[31mFailed to spawn terminal: ${err}\x1b[0m`);
+			this.terminal.writeln("\x1b[33mMake sure node-pty is properly built for Obsidian's Electron.\x1b[0m");
+			// Offer Restart, Open shell and Close rather than leaving a pane that ignores input
+			this.wireInput(false);
+			this.handleExit();
+			this._readyResolve?.();
+			return;
+		}
+
+		this.plugin.changeTracker.begin(this);
+
+		// Wire PTY output → terminal display
+		this.ptyManager.onData((data) => {
+			this.terminal?.write(data);
+			this.activity?.activity();
+			// Debounced by Obsidian — persists the scrollback once output settles
+			if (this.plugin.settings.restoreScrollback) {
+				this.app.workspace.requestSaveLayout();
+			}
+		});
+
+		this.ptyManager.onExit((exitCode, signal) => {
+			this.activity?.exit(exitCode, signal);
+			// Progress from a process that's gone would never be cleared
+			this.setProgress(NO_PROGRESS);
+			this.plugin.changeTracker.end(this);
+			this.handleExit();
+		});
+
+		this.wireInput(isClaudeProfile(profile));
+		this._readyResolve?.();
+	}
+
+	/** Wire terminal input → PTY (single listener, tracked for disposal) */
+	private wireInput(trackPrompts: boolean) {
+		if (!this.terminal) return;
+		this.promptBuffer = "";
+		this.inputDisposable = this.terminal.onData((data) => {
+			// The process is gone — Enter restarts it, other keys are dropped
+			if (this.status.state === "exited") {
+				if (data === "\r") this.restartAfterExit();
+				return;
+			}
+			this.ptyManager?.write(data);
+			if (trackPrompts) this.trackPrompt(data);
+		});
+	}
+
+	private handleProgress(progress: TerminalProgress | null): boolean {
+		if (!progress) return false;
+		const finished = isActive(this._progress) && !isActive(progress);
+		this.setProgress(progress);
+		if (finished) this.view.progressFinished();
+		return true;
+	}
+
+	private setProgress(progress: TerminalProgress) {
+		const current = this._progress;
+		if (current.state === progress.state && current.percent === progress.percent) return;
+		this._progress = progress;
+		this.view.progressChanged();
+	}
+
+	/**
+	 * Show a notification from the program as a notice, and as a desktop
+	 * notification while Obsidian is in the background (per the profile).
+	 * Clicking either focuses this pane. Nothing is shown while the pane has
+	 * focus. Returns whether the sequence was a notification.
+	 */
+	private handleNotification(notification: TerminalNotification | null): boolean {
+		if (!notification) return false;
+		const mode = this.profile.notifications;
+		const windowFocused = document.hasFocus();
+		if (mode === "off" || (windowFocused && this.containerEl.contains(document.activeElement))) return true;
+
+		const title = notification.title ?? this.title;
+		const reveal = () => {
+			this.app.workspace.revealLeaf(this.view.leaf);
+			this.focus();
+		};
+
+		const notice = new Notice(createFragment((el) => {
+			el.createEl("strong", { text: title });
+			el.createDiv({ text: notification.body });
+		}), NOTICE_DURATION_MS);
+		notice.noticeEl.addClass("claude-terminal-notice");
+		notice.noticeEl.addEventListener("click", reveal);
+
+		if (mode === "desktop" && !windowFocused && typeof Notification !== "undefined") {
+			const desktop = new Notification(title, { body: notification.body });
+			desktop.onclick = () => {
+				window.focus();
+				reveal();
+			};
+		}
+		return true;
+	}
+
+	/** Make a vault checkpoint when a prompt is submitted */
+	private trackPrompt(data: string) {
+		const { buffer, submitted } = updatePromptBuffer(this.promptBuffer, data);
+		this.promptBuffer = buffer;
+		if (submitted && isPromptSubmission(submitted) && this.plugin.settings.checkpoints) {
+			this.plugin.checkpoints.create(submitted).catch((e) =>
+				console.error("obsidian-shell: failed to save checkpoint", e));
+		}
+	}
+
+	/**
+	 * Show the exit banner, counting down to a restart when the profile's
+	 * restart policy applies. Quick repeated exits back off exponentially.
+	 */
+	private handleExit() {
+		if (!this.exitBanner) return;
+		const status = this.status;
+		if (Date.now() - this.spawnedAt >= STABLE_RUN_MS) this.restartAttempts = 0;
+
+		const shell = findShellProfile(this.plugin.settings);
+		const autoRestart = shouldRestart(this.profile.restart, status)
+			? { delay: restartDelay(this.restartAttempts++), run: () => this.respawn() }
+			: undefined;
+
+		this.exitBanner.show(status, {
+			restart: () => this.restartAfterExit(),
+			openShell: shell && shell.id !== this.profile.id ? () => this.switchProfile(shell.id) : undefined,
+			close: () => this.view.closePane(this),
+		}, autoRestart);
+	}
+
+	/** Restart by the user's choice, which resets the backoff */
+	private restartAfterExit() {
+		this.restartAttempts = 0;
+		this.respawn();
+	}
+
+	/** Start the process again below the old output */
+	private respawn() {
+		this.writeDivider("restarted");
+		this.spawnPty();
+	}
+
+	/** Replace the exited process with one from another profile, in the same directory */
+	private switchProfile(profileId: string) {
+		this.profileId = profileId;
+		// The old program's title no longer describes this pane
+		this.programTitle = null;
+		this.restartAttempts = 0;
+		this.respawn();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	dispose() {
+		this.disposeTerminal();
+		this.containerEl.remove();
+	}
+
+	private disposeTerminal() {
+		if (this.waitForLayoutId !== null) {
+			cancelAnimationFrame(this.waitForLayoutId);
+			this.waitForLayoutId = null;
+		}
+		this.abortController?.abort();
+		this.abortController = null;
+		this.resizeObserver?.disconnect();
+		this.resizeObserver = null;
+		this.resizeDisposable?.dispose();
+		this.resizeDisposable = null;
+		this.focusDisposable?.dispose();
+		this.focusDisposable = null;
+		this.titleDisposable?.dispose();
+		this.titleDisposable = null;
+		this.popKeyScope();
+		this.oscDisposables.forEach((d) => d.dispose());
+		this.oscDisposables = [];
+		this.ligatureJoinerId = null;
+		this.inputDisposable?.dispose();
+		this.inputDisposable = null;
+		this.ptyManager?.kill();
+		this.ptyManager = null;
+		this.activity?.dispose();
+		this.activity = null;
+		this.plugin.changeTracker.end(this);
+		this.exitBanner?.dispose();
+		this.exitBanner = null;
+		this.findBar?.dispose();
+		this.findBar = null;
+		this.terminal?.dispose();
+		this.terminal = null;
+		this.fitAddon = null;
+		this.serializeAddon = null;
+	}
+
+	restart() {
+		if (!this.terminal) return;
+		this.terminal.clear();
+		this.terminal.reset();
+		this.restartAttempts = 0;
+		this.spawnPty();
+	}
+
+	/** Set the pane's name; an empty name goes back to the automatic title */
+	rename(name: string) {
+		this.customTitle = cleanTitle(name) || null;
+		this.titleChanged();
+	}
+
+	private titleChanged() {
+		this.view.titleChanged();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	/**
+	 * Bring the running terminal up to date with the plugin settings and
+	 * Obsidian's theme, without restarting the process.
+	 */
+	applySettings() {
+		if (!this.terminal) return;
+		const settings = this.plugin.settings;
+		const theme = this.plugin.getTerminalTheme();
+		this.terminal.options.theme = theme;
+		Object.assign(this.terminal.options, terminalOptions(settings, resolveMonospaceFont()));
+		this.updateLigatures();
+		this.terminal.options.macOptionIsMeta = settings.optionAsMeta;
+		this.containerEl.style.backgroundColor = theme.background ?? "";
+
+		// Key bindings are registered when the scope is pushed
+		if (this.keyScope) {
+			this.popKeyScope();
+			this.pushKeyScope();
+		}
+		// Font changes alter the cell size; refitting also resizes the PTY
+		if (this.isSpawned) this.fitAddon?.fit();
+	}
+
+	/**
+	 * Register or remove the ligature joiner to match the setting. Despite
+	 * the "canvas renderer only" note in xterm.d.ts, the WebGL addon (0.18)
+	 * and the DOM renderer of xterm 5.5 both ask the core joiner service for
+	 * joined ranges and draw each as one run of text, which the font shapes.
+	 */
+	private updateLigatures() {
+		if (!this.terminal) return;
+		const enabled = this.plugin.settings.ligatures;
+		if (enabled && this.ligatureJoinerId === null) {
+			this.ligatureJoinerId = this.terminal.registerCharacterJoiner(findLigatures);
+		} else if (!enabled && this.ligatureJoinerId !== null) {
+			this.terminal.deregisterCharacterJoiner(this.ligatureJoinerId);
+			this.ligatureJoinerId = null;
+		}
+	}
+
+	sendToTerminal(command: string) {
+		this.ptyManager?.sendCommand(command);
+	}
+
+	typeInTerminal(text: string) {
+		this.ptyManager?.sendText(text);
+	}
+
+	focus() {
+		this.terminal?.focus();
+	}
+
+	openFind() {
+		this.findBar?.open();
+	}
+}
@@ -0,0 +1,52 @@
+/**
+ * Progress reported with OSC 9;4 (ConEmu, also used by Windows Terminal,
+ * systemd and Claude Code): `9;4;<state>;<percent>`.
+ */
+
+export type ProgressState = "none" | "normal" | "error" | "indeterminate" | "paused";
+
+export interface TerminalProgress {
+	state: ProgressState;
+	/** 0–100; absent when indeterminate or not yet reported */
+	percent?: number;
+}
+
+const STATES: ProgressState[] = ["none", "normal", "error", "indeterminate", "paused"];
+
+export const NO_PROGRESS: TerminalProgress = { state: "none" };
+
+/**
+ * Apply an OSC 9 payload (the text after `9;`) to the current progress.
+ * Returns null if the payload isn't a progress sequence. Error and paused
+ * keep the previous percentage when none is given.
+ */
+export function updateProgress(current: TerminalProgress, data: string): TerminalProgress | null {
+	const match = /^4(?:;(\d*))?(?:;(\d*))?;?$/.exec(data);
+	if (!match) return null;
+	const state = STATES[Number(match[1] || 0)];
+	if (!state) return null;
+	if (state === "none") return NO_PROGRESS;
+	if (state === "indeterminate") return { state };
+
+	const percent = match[2] ? Math.min(100, Number(match[2])) : undefined;
+	if (percent !== undefined) return { state, percent };
+	if (state === "normal") return { state, percent: 0 };
+	return current.percent !== undefined ? { state, percent: current.percent } : { state };
+}
+
+/** Whether the progress counts as running (anything but none) */
+export function isActive(progress: TerminalProgress): boolean {
+	return progress.state !== "none";
+}
+
+/** Short label for the status bar, e.g. "45%", "error 45%" or "working" */
+export function formatProgress(progress: TerminalProgress): string {
+	const percent = progress.percent !== undefined ? `${progress.percent}%` : "";
+	switch (progress.state) {
+		case "none": return "";
+		case "normal": return percent;
+		case "indeterminate": return "working";
+		case "error": return percent ? `error ${percent}` : "error";
+		case "paused": return percent ? `paused ${percent}` : "paused";
+	}
+}
@@ -0,0 +1,110 @@
+/**
+ * Helpers for turning terminal output into clean Markdown text.
+ */
+
+export interface BufferLine {
+	text: string;
+	/** True if this row is a soft-wrap continuation of the previous row */
+	isWrapped: boolean;
+}
+
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+const BOX_CHARS = "─-╿";
+const BOX_ONLY_LINE = new RegExp(`^[\\s${BOX_CHARS}]*[${BOX_CHARS}][\\s${BOX_CHARS}]*$`);
+const LEFT_BORDER = /^\s*[│┃║] ?/;
+const RIGHT_BORDER = /\s*[│┃║]\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+export function stripAnsi(text: string): string {
+	return text.replace(ANSI_PATTERN, "");
+}
+
+/** Re-join rows that xterm soft-wrapped at the terminal width */
+export function joinWrappedLines(lines: BufferLine[]): string[] {
+	const joined: string[] = [];
+	for (const line of lines) {
+		if (line.isWrapped && joined.length > 0) {
+			joined[joined.length - 1] += line.text;
+		} else {
+			joined.push(line.text);
+		}
+	}
+	return joined;
+}
+
+/**
+ * Remove box-drawing frames (the borders Claude draws around panels and the
+ * input prompt) while keeping the text inside them. Lines inside fenced code
+ * blocks are left alone, and indentation is preserved everywhere.
+ */
+export function tidyTerminalText(text: string): string {
+	const out: string[] = [];
+	let inFence = false;
+
+	for (const raw of stripAnsi(text).split("\n")) {
+		let line = raw.replace(/\s+$/, "");
+
+		if (FENCE.test(line)) {
+			inFence = !inFence;
+			out.push(line);
+			continue;
+		}
+		if (inFence) {
+			out.push(line);
+			continue;
+		}
+
+		if (BOX_ONLY_LINE.test(line)) continue;
+		if (LEFT_BORDER.test(line)) {
+			line = line.replace(LEFT_BORDER, "").replace(RIGHT_BORDER, "");
+		}
+
+		// Collapse runs of blank lines left behind by removed borders
+		if (line === "" && (out.length === 0 || out[out.length - 1] === "")) continue;
+		out.push(line);
+	}
+
+	while (out.length > 0 && out[out.length - 1] === "") out.pop();
+	return out.join("\n");
+}
+
+export interface ExportMetadata {
+	date: Date;
+	profile: string;
+	cwd: string;
+}
+
+/** Local date-time in the format Obsidian's Properties recognise (YYYY-MM-DDTHH:mm) */
+export function formatLocalDateTime(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+		`T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** Build a new note: frontmatter recording where the text came from, then the text */
+export function formatExportNote(body: string, meta: ExportMetadata): string {
+	return [
+		"---",
+		`date: ${formatLocalDateTime(meta.date)}`,
+		`profile: ${JSON.stringify(meta.profile)}`,
+		`cwd: ${JSON.stringify(meta.cwd)}`,
+		"---",
+		"",
+		body,
+		"",
+	].join("\n");
+}
+
+/** Section appended to an existing note (which already has its own frontmatter) */
+export function formatExportSection(body: string, meta: ExportMetadata): string {
+	return [
+		"",
+		`## Terminal export ${formatLocalDateTime(meta.date).replace("T", " ")}`,
+		"",
+		`*${meta.profile} — \`${meta.cwd}\`*`,
+		"",
+		body,
+		"",
+	].join("\n");
+}
@@ -0,0 +1,209 @@
+import type { ITheme } from "@xterm/xterm";
+import type { TerminalColors } from "./constants";
+
+/**
+ * Terminal color themes: one set of colors per Obsidian mode, with blank
+ * colors taken from the Obsidian theme, plus bundled presets.
+ */
+
+export type ThemeMode = "dark" | "light";
+export type TerminalColorKey = keyof TerminalColors;
+
+export const ANSI_COLOR_KEYS: TerminalColorKey[] = [
+	"black", "red", "green", "yellow", "blue", "magenta", "cyan", "white",
+	"brightBlack", "brightRed", "brightGreen", "brightYellow", "brightBlue", "brightMagenta", "brightCyan", "brightWhite",
+];
+
+export const TERMINAL_COLOR_KEYS: TerminalColorKey[] = [
+	"background", "foreground", "cursor", "cursorAccent", "selectionBackground", "selectionForeground",
+	...ANSI_COLOR_KEYS,
+];
+
+export const COLOR_LABELS: Record<TerminalColorKey, string> = {
+	background: "Background",
+	foreground: "Foreground",
+	cursor: "Cursor",
+	cursorAccent: "Cursor text",
+	selectionBackground: "Selection",
+	selectionForeground: "Selected text",
+	black: "Black",
+	red: "Red",
+	green: "Green",
+	yellow: "Yellow",
+	blue: "Blue",
+	magenta: "Magenta",
+	cyan: "Cyan",
+	white: "White",
+	brightBlack: "Bright black",
+	brightRed: "Bright red",
+	brightGreen: "Bright green",
+	brightYellow: "Bright yellow",
+	brightBlue: "Bright blue",
+	brightMagenta: "Bright magenta",
+	brightCyan: "Bright cyan",
+	brightWhite: "Bright white",
+};
+
+/**
+ * Obsidian CSS variable and last-resort default for each color. Obsidian has
+ * no bright palette, so bright colors share the normal variables.
+ */
+const OBSIDIAN_COLORS: Partial<Record<TerminalColorKey, [string, string]>> = {
+	background: ["--background-primary", "#1e1e2e"],
+	foreground: ["--text-normal", "#cdd6f4"],
+	cursor: ["--text-accent", "#f5e0dc"],
+	selectionBackground: ["--text-selection", "#45475a"],
+	black: ["--color-base-00", "#000000"],
+	red: ["--color-red", "#f38ba8"],
+	green: ["--color-green", "#a6e3a1"],
+	yellow: ["--color-yellow", "#f9e2af"],
+	blue: ["--color-blue", "#89b4fa"],
+	magenta: ["--color-purple", "#f5c2e7"],
+	cyan: ["--color-cyan", "#94e2d5"],
+	white: ["--color-base-70", "#bac2de"],
+	brightBlack: ["--color-base-30", "#585b70"],
+	brightRed: ["--color-red", "#f38ba8"],
+	brightGreen: ["--color-green", "#a6e3a1"],
+	brightYellow: ["--color-yellow", "#f9e2af"],
+	brightBlue: ["--color-blue", "#89b4fa"],
+	brightMagenta: ["--color-purple", "#f5c2e7"],
+	brightCyan: ["--color-cyan", "#94e2d5"],
+	brightWhite: ["--color-base-100", "#ffffff"],
+};
+
+export function emptyColors(): TerminalColors {
+	return Object.fromEntries(TERMINAL_COLOR_KEYS.map((key) => [key, ""])) as unknown as TerminalColors;
+}
+
+/** Fill in any missing colors with blanks, ignoring unknown keys and non-strings */
+export function normalizeColors(colors: unknown): TerminalColors {
+	const result = emptyColors();
+	if (!colors || typeof colors !== "object") return result;
+	for (const key of TERMINAL_COLOR_KEYS) {
+		const value = (colors as Record<string, unknown>)[key];
+		if (typeof value === "string") result[key] = value.trim();
+	}
+	return result;
+}
+
+/**
+ * Read saved theme settings. Older versions saved a single set of
+ * background, foreground and cursor colors; those apply to both modes.
+ */
+export function normalizeThemeSettings(theme: unknown): { dark: TerminalColors; light: TerminalColors } {
+	const saved = (theme && typeof theme === "object" ? theme : {}) as Record<string, unknown>;
+	if (!("dark" in saved) && !("light" in saved)) {
+		return { dark: normalizeColors(saved), light: normalizeColors(saved) };
+	}
+	return { dark: normalizeColors(saved.dark), light: normalizeColors(saved.light) };
+}
+
+/**
+ * The xterm theme for a set of colors. `cssVar` reads an Obsidian CSS
+ * variable (empty if unset) for colors left blank.
+ */
+export function resolveTerminalTheme(colors: TerminalColors, cssVar: (name: string) => string): ITheme {
+	const theme: ITheme = {};
+	for (const key of TERMINAL_COLOR_KEYS) {
+		const fallback = OBSIDIAN_COLORS[key];
+		const value = colors[key] || (fallback ? cssVar(fallback[0]) || fallback[1] : "");
+		if (value) theme[key] = value;
+	}
+	// A block cursor shows the text under it in the background color
+	if (!theme.cursorAccent) theme.cursorAccent = theme.background;
+	return theme;
+}
+
+/** Whether `value` is a #rgb or #rrggbb color, as color pickers and importers produce */
+export function isHexColor(value: string): boolean {
+	return /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+}
+
+export interface ThemePreset {
+	name: string;
+	mode: ThemeMode;
+	colors: Partial<TerminalColors>;
+}
+
+const SOLARIZED_ANSI: Partial<TerminalColors> = {
+	black: "#073642", red: "#dc322f", green: "#859900", yellow: "#b58900",
+	blue: "#268bd2", magenta: "#d33682", cyan: "#2aa198", white: "#eee8d5",
+	brightBlack: "#002b36", brightRed: "#cb4b16", brightGreen: "#586e75", brightYellow: "#657b83",
+	brightBlue: "#839496", brightMagenta: "#6c71c4", brightCyan: "#93a1a1", brightWhite: "#fdf6e3",
+};
+
+/** Bundled themes. "Obsidian" clears every color so the Obsidian theme is used. */
+export const THEME_PRESETS: ThemePreset[] = [
+	{ name: "Obsidian", mode: "dark", colors: {} },
+	{ name: "Obsidian", mode: "light", colors: {} },
+	{
+		name: "Catppuccin Mocha",
+		mode: "dark",
+		colors: {
+			background: "#1e1e2e", foreground: "#cdd6f4", cursor: "#f5e0dc", selectionBackground: "#585b70",
+			black: "#45475a", red: "#f38ba8", green: "#a6e3a1", yellow: "#f9e2af",
+			blue: "#89b4fa", magenta: "#f5c2e7", cyan: "#94e2d5", white: "#bac2de",
+			brightBlack: "#585b70", brightRed: "#f38ba8", brightGreen: "#a6e3a1", brightYellow: "#f9e2af",
+			brightBlue: "#89b4fa", brightMagenta: "#f5c2e7", brightCyan: "#94e2d5", brightWhite: "#a6adc8",
+		},
+	},
+	{
+		name: "Catppuccin Latte",
+		mode: "light",
+		colors: {
+			background: "#eff1f5", foreground: "#4c4f69", cursor: "#dc8a78", selectionBackground: "#acb0be",
+			black: "#5c5f77", red: "#d20f39", green: "#40a02b", yellow: "#df8e1d",
+			blue: "#1e66f5", magenta: "#ea76cb", cyan: "#179299", white: "#acb0be",
+			brightBlack: "#6c6f85", brightRed: "#d20f39", brightGreen: "#40a02b", brightYellow: "#df8e1d",
+			brightBlue: "#1e66f5", brightMagenta: "#ea76cb", brightCyan: "#179299", brightWhite: "#bcc0cc",
+		},
+	},
+	{
+		name: "Dracula",
+		mode: "dark",
+		colors: {
+			background: "#282a36", foreground: "#f8f8f2", cursor: "#f8f8f2", selectionBackground: "#44475a",
+			black: "#21222c", red: "#ff5555", green: "#50fa7b", yellow: "#f1fa8c",
+			blue: "#bd93f9", magenta: "#ff79c6", cyan: "#8be9fd", white: "#f8f8f2",
+			brightBlack: "#6272a4", brightRed: "#ff6e6e", brightGreen: "#69ff94", brightYellow: "#ffffa5",
+			brightBlue: "#d6acff", brightMagenta: "#ff92df", brightCyan: "#a4ffff", brightWhite: "#ffffff",
+		},
+	},
+	{
+		name: "Gruvbox Dark",
+		mode: "dark",
+		colors: {
+			background: "#282828", foreground: "#ebdbb2", cursor: "#ebdbb2", selectionBackground: "#504945",
+			black: "#282828", red: "#cc241d", green: "#98971a", yellow: "#d79921",
+			blue: "#458588", magenta: "#b16286", cyan: "#689d6a", white: "#a89984",
+			brightBlack: "#928374", brightRed: "#fb4934", brightGreen: "#b8bb26", brightYellow: "#fabd2f",
+			brightBlue: "#83a598", brightMagenta: "#d3869b", brightCyan: "#8ec07c", brightWhite: "#ebdbb2",
+		},
+	},
+	{
+		name: "Gruvbox Light",
+		mode: "light",
+		colors: {
+			background: "#fbf1c7", foreground: "#3c3836", cursor: "#3c3836", selectionBackground: "#d5c4a1",
+			black: "#fbf1c7", red: "#cc241d", green: "#98971a", yellow: "#d79921",
+			blue: "#458588", magenta: "#b16286", cyan: "#689d6a", white: "#7c6f64",
+			brightBlack: "#928374", brightRed: "#9d0006", brightGreen: "#79740e", brightYellow: "#b57614",
+			brightBlue: "#076678", brightMagenta: "#8f3f71", brightCyan: "#427b58", brightWhite: "#3c3836",
+		},
+	},
+	{
+		name: "Solarized Dark",
+		mode: "dark",
+		colors: { background: "#002b36", foreground: "#839496", cursor: "#93a1a1", selectionBackground: "#073642", ...SOLARIZED_ANSI },
+	},
+	{
+		name: "Solarized Light",
+		mode: "light",
+		colors: { background: "#fdf6e3", foreground: "#657b83", cursor: "#586e75", selectionBackground: "#eee8d5", ...SOLARIZED_ANSI },
+	},
+];
+
+/** Colors for a preset: every key present, blank where the preset has none */
+export function presetColors(preset: ThemePreset): TerminalColors {
+	return { ...emptyColors(), ...preset.colors };
+}
@@ -0,0 +1,31 @@
+/**
+ * Tab titles for terminal panes. A name set by the user wins, then the
+ * title the program sets with OSC 0/2, then the profile and folder.
+ */
+
+const MAX_TITLE_LENGTH = 80;
+
+export interface TitleSources {
+	/** Set with "Rename terminal" */
+	custom?: string | null;
+	/** Last OSC 0/2 window title from the program */
+	program?: string | null;
+	profileName: string;
+	/** Working directory (absolute or vault-relative), if known */
+	cwd?: string | null;
+}
+
+/** Strip control characters and collapse whitespace; long titles are cut with an ellipsis */
+export function cleanTitle(raw: string): string {
+	const title = raw.replace(/[\x00-\x1f\x7f-\x9f]/g, " ").replace(/\s+/g, " ").trim();
+	return title.length > MAX_TITLE_LENGTH ? title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd() + "…" : title;
+}
+
+export function paneTitle(sources: TitleSources): string {
+	const custom = cleanTitle(sources.custom ?? "");
+	if (custom) return custom;
+	const program = cleanTitle(sources.program ?? "");
+	if (program) return program;
+	const folder = (sources.cwd ?? "").replace(/[\\/]+$/, "").split(/[\\/]/).pop();
+	return folder ? `${sources.profileName} · ${folder}` : sources.profileName;
+}
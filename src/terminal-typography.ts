@@ -0,0 +1,143 @@
+import type { FontWeight, ITerminalOptions } from "@xterm/xterm";
+import type { ClaudeTerminalSettings } from "./constants";
+
+/**
+ * Font and cursor options for terminals: checking saved values, building the
+ * font family with fallbacks and finding ligatures for xterm to draw as one.
+ */
+
+export type CursorStyle = "block" | "underline" | "bar";
+
+export const CURSOR_STYLES: Record<CursorStyle, string> = {
+	block: "Block",
+	underline: "Underline",
+	bar: "Bar",
+};
+
+export const FONT_WEIGHTS: FontWeight[] = ["100", "200", "300", "400", "500", "600", "700", "800", "900"];
+
+export const FONT_WEIGHT_LABELS: Record<string, string> = {
+	"100": "Thin",
+	"200": "Extra light",
+	"300": "Light",
+	"400": "Normal",
+	"500": "Medium",
+	"600": "Semibold",
+	"700": "Bold",
+	"800": "Extra bold",
+	"900": "Black",
+};
+
+/** Allowed range (and whether whole numbers are required) for each numeric option */
+export const TYPOGRAPHY_LIMITS = {
+	lineHeight: { min: 1, max: 2, integer: false },
+	letterSpacing: { min: -2, max: 10, integer: true },
+	scrollback: { min: 0, max: 100_000, integer: true },
+};
+
+export type TypographySettings = Pick<
+	ClaudeTerminalSettings,
+	| "fontSize"
+	| "fontFamily"
+	| "fontWeight"
+	| "fontWeightBold"
+	| "lineHeight"
+	| "letterSpacing"
+	| "ligatures"
+	| "cursorStyle"
+	| "cursorBlink"
+	| "scrollback"
+>;
+
+/**
+ * Read a number typed into a settings field. Returns null if it isn't a
+ * number, is out of `limits` or should be whole and isn't.
+ */
+export function parseNumberSetting(text: string, limits: { min: number; max: number; integer: boolean }): number | null {
+	if (!text.trim()) return null;
+	const value = Number(text);
+	if (!Number.isFinite(value)) return null;
+	if (limits.integer && !Number.isInteger(value)) return null;
+	if (value < limits.min || value > limits.max) return null;
+	return value;
+}
+
+function isFontWeight(value: unknown): value is FontWeight {
+	return FONT_WEIGHTS.includes(String(value) as FontWeight);
+}
+
+/** Replace missing or invalid saved values with the defaults */
+export function normalizeTypography(saved: Partial<TypographySettings>, defaults: TypographySettings): TypographySettings {
+	const number = (key: keyof typeof TYPOGRAPHY_LIMITS) => {
+		const value = saved[key];
+		return typeof value === "number" && parseNumberSetting(String(value), TYPOGRAPHY_LIMITS[key]) !== null
+			? value
+			: defaults[key];
+	};
+	return {
+		fontSize: typeof saved.fontSize === "number" && saved.fontSize > 0 ? saved.fontSize : defaults.fontSize,
+		fontFamily: typeof saved.fontFamily === "string" ? saved.fontFamily.trim() : defaults.fontFamily,
+		fontWeight: isFontWeight(saved.fontWeight) ? String(saved.fontWeight) as FontWeight : defaults.fontWeight,
+		fontWeightBold: isFontWeight(saved.fontWeightBold) ? String(saved.fontWeightBold) as FontWeight : defaults.fontWeightBold,
+		lineHeight: number("lineHeight"),
+		letterSpacing: number("letterSpacing"),
+		ligatures: typeof saved.ligatures === "boolean" ? saved.ligatures : defaults.ligatures,
+		cursorStyle: saved.cursorStyle && saved.cursorStyle in CURSOR_STYLES ? saved.cursorStyle : defaults.cursorStyle,
+		cursorBlink: typeof saved.cursorBlink === "boolean" ? saved.cursorBlink : defaults.cursorBlink,
+		scrollback: number("scrollback"),
+	};
+}
+
+/** Quote a font family name for CSS unless it's a generic family or a plain identifier */
+function quoteFamily(name: string): string {
+	if (/^[a-z][\w-]*$/i.test(name)) return name;
+	return `"${name.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/** Split a comma-separated font list, dropping blanks and quotes around names */
+export function parseFontList(list: string): string[] {
+	return list
+		.split(",")
+		.map((name) => name.trim().replace(/^(["'])(.*)\1$/, "$2").trim())
+		.filter((name) => name.length > 0);
+}
+
+/**
+ * The CSS font-family for the terminal: the families listed in settings,
+ * then `fallback` (Obsidian's monospace font) and the generic monospace.
+ */
+export function buildFontFamily(list: string, fallback: string): string {
+	const families = [...parseFontList(list).map(quoteFamily), fallback.trim(), "monospace"].filter((name) => name);
+	return [...new Set(families)].join(", ");
+}
+
+/** Options for xterm from the settings; `fallbackFont` follows the listed fonts */
+export function terminalOptions(settings: TypographySettings, fallbackFont: string): ITerminalOptions {
+	return {
+		fontSize: settings.fontSize,
+		fontFamily: buildFontFamily(settings.fontFamily, fallbackFont),
+		fontWeight: settings.fontWeight,
+		fontWeightBold: settings.fontWeightBold,
+		lineHeight: settings.lineHeight,
+		letterSpacing: settings.letterSpacing,
+		cursorStyle: settings.cursorStyle,
+		cursorBlink: settings.cursorBlink,
+		scrollback: settings.scrollback,
+	};
+}
+
+/** Runs of the symbols coding fonts make ligatures from ("=>", "!==", "->", "<=", "::" …) */
+const LIGATURE_RUN = /[!#$%&*+\-./:<=>?@\\^|~]{2,}/g;
+
+/**
+ * Character joiner for ligatures: the ranges of `text` xterm should draw in
+ * one go so the font can combine them. The font decides which runs become
+ * ligatures; the rest draw as usual.
+ */
+export function findLigatures(text: string): [number, number][] {
+	const ranges: [number, number][] = [];
+	for (const match of text.matchAll(LIGATURE_RUN)) {
+		ranges.push([match.index!, match.index! + match[0].length]);
+	}
+	return ranges;
+}
@@ -1,29 +1,46 @@
-import { ItemView, WorkspaceLeaf } from "obsidian";
-import { Terminal, IDisposable } from "@xterm/xterm";
-import { FitAddon } from "@xterm/addon-fit";
-import { Unicode11Addon } from "@xterm/addon-unicode11";
-import { WebLinksAddon } from "@xterm/addon-web-links";
-import { WebglAddon } from "@xterm/addon-webgl";
-import { VIEW_TYPE_TERMINAL } from "./constants";
-import { PtyManager } from "./pty-manager";
+import { ItemView, WorkspaceLeaf, ViewStateResult, Menu } from "obsidian";
+import { VIEW_TYPE_TERMINAL, LaunchProfile } from "./constants";
+import { getProfile } from "./profiles";
+import { TerminalPane, PaneState, BufferScope, parsePaneState } from "./terminal-pane";
+import {
+	LayoutNode,
+	SplitDirection,
+	FocusDirection,
+	PaneRect,
+	listPanes,
+	mapLayout,
+	splitPane,
+	removePane,
+	clampRatio,
+	parseLayout,
+	paneInDirection,
+} from "./pane-layout";
+import { ProfileSuggestModal, RenameModal } from "./context-pickers";
+import { TerminalProgress, NO_PROGRESS, isActive } from "./terminal-progress";
 import type ClaudeTerminalPlugin from "./main";
 
-const MAX_LAYOUT_RETRIES = 200; // ~3.3s at 60fps
+export type { BufferScope } from "./terminal-pane";
 
+export interface TerminalViewState extends PaneState {
+	/** Split layout with each pane's state. Without it, the view has one pane using the fields above. */
+	layout?: LayoutNode<PaneState>;
+	/** Index of the focused pane, in layout order */
+	activePane?: number;
+}
+
+/**
+ * A workspace leaf holding one or more terminal panes, split horizontally
+ * or vertically. Sending context, find and export act on the active pane.
+ */
 export class TerminalView extends ItemView {
-	private terminal: Terminal | null = null;
-	private fitAddon: FitAddon | null = null;
-	private ptyManager: PtyManager | null = null;
-	private resizeObserver: ResizeObserver | null = null;
-	private resizeDisposable: IDisposable | null = null;
-	private terminalContainer: HTMLElement | null = null;
 	private plugin: ClaudeTerminalPlugin;
-	private inputDisposable: IDisposable | null = null;
-	private focusDisposable: IDisposable | null = null;
-	private abortController: AbortController | null = null;
-	private waitForLayoutId: number | null = null;
+	private root: LayoutNode<TerminalPane> | null = null;
+	private activePane: TerminalPane | null = null;
+	/** Progress bar drawn along the bottom of the tab header */
+	private tabProgressEl: HTMLElement | null = null;
 
 	private _readyResolve: (() => void) | null = null;
+	/** Resolves once the first pane's process has started */
 	readonly ready: Promise<void>;
 
 	constructor(leaf: WorkspaceLeaf, plugin: ClaudeTerminalPlugin) {
@@ -38,272 +55,314 @@ export class TerminalView extends ItemView {
 		return VIEW_TYPE_TERMINAL;
 	}
 
+	/** The active pane's title */
 	getDisplayText(): string {
-		return "Claude Shell";
+		return this.pane?.title ?? "Claude Shell";
 	}
 
 	getIcon(): string {
-		return "sparkles";
+		return this.profile.icon || "sparkles";
 	}
 
-	async onOpen() {
-		const container = this.contentEl;
-		container.empty();
-		container.addClass("claude-terminal-container");
-
-		this.terminalContainer = container.createDiv({ cls: "claude-terminal-xterm" });
-
-		this.initTerminal();
-	}
-
-	private initTerminal() {
-		if (!this.terminalContainer) return;
-
-		// Clean up any previous terminal (e.g. if onOpen is called twice)
-		this.disposeTerminal();
-
-		this.abortController = new AbortController();
-		const { signal } = this.abortController;
-
-		const settings = this.plugin.settings;
-
-		// Read Obsidian's active theme colors via CSS variables
-		const cs = getComputedStyle(document.body);
-		const cv = (v: string) => cs.getPropertyValue(v).trim();
-
-		const bg = settings.theme.background || cv("--background-primary") || "#1e1e2e";
-		const fg = settings.theme.foreground || cv("--text-normal") || "#cdd6f4";
-		const cursor = settings.theme.cursor || cv("--text-accent") || "#f5e0dc";
-
-		const theme = {
-			background: bg,
-			foreground: fg,
-			cursor: cursor,
-			selectionBackground: cv("--text-selection") || "#45475a",
-			black: cv("--color-base-00") || "#000000",
-			red: cv("--color-red") || "#f38ba8",
-			green: cv("--color-green") || "#a6e3a1",
-			yellow: cv("--color-yellow") || "#f9e2af",
-			blue: cv("--color-blue") || "#89b4fa",
-			magenta: cv("--color-purple") || "#f5c2e7",
-			cyan: cv("--color-cyan") || "#94e2d5",
-			white: cv("--color-base-70") || "#bac2de",
-			brightBlack: cv("--color-base-30") || "#585b70",
-			brightRed: cv("--color-red") || "#f38ba8",
-			brightGreen: cv("--color-green") || "#a6e3a1",
-			brightYellow: cv("--color-yellow") || "#f9e2af",
-			brightBlue: cv("--color-blue") || "#89b4fa",
-			brightMagenta: cv("--color-purple") || "#f5c2e7",
-			brightCyan: cv("--color-cyan") || "#94e2d5",
-			brightWhite: cv("--color-base-100") || "#ffffff",
-		};
+	/** All panes, in layout order */
+	get panes(): TerminalPane[] {
+		return this.root ? listPanes(this.root) : [];
+	}
 
-		// Resolve Obsidian's monospace font by probing a temporary element
-		// that uses the same CSS variable chain Obsidian applies to code blocks.
-		const probe = document.body.createEl("span", {
-			attr: { style: "font-family: var(--font-monospace, var(--font-monospace-default)); position: absolute; visibility: hidden;" },
-		});
-		const obsidianFont =
-			getComputedStyle(probe).fontFamily || "monospace";
-		probe.remove();
-
-		const terminalFont = obsidianFont;
-
-		// Set the container background to match the terminal so padding areas
-		// don't show the default leaf background colour.
-		this.terminalContainer.style.backgroundColor = bg;
-
-		this.terminal = new Terminal({
-			fontSize: settings.fontSize,
-			fontFamily: terminalFont,
-			fontWeight: "100",
-			fontWeightBold: "200",
-			theme,
-			cursorBlink: true,
-			cursorStyle: "block",
-			allowProposedApi: true,
-			macOptionIsMeta: true,
-		});
+	/** The pane that last had focus (or the first one) */
+	get pane(): TerminalPane | null {
+		return this.activePane ?? this.panes[0] ?? null;
+	}
 
-		this.fitAddon = new FitAddon();
-		this.terminal.loadAddon(this.fitAddon);
-		this.terminal.loadAddon(new Unicode11Addon());
-		this.terminal.unicode.activeVersion = "11";
-		this.terminal.loadAddon(new WebLinksAddon());
-
-		this.terminal.open(this.terminalContainer);
-
-		// Use GPU-accelerated WebGL renderer, fall back to canvas on failure
-		try {
-			const webglAddon = new WebglAddon();
-			webglAddon.onContextLoss(() => webglAddon.dispose());
-			this.terminal.loadAddon(webglAddon);
-		} catch {
-			// Canvas renderer remains active as fallback
-		}
+	/** The active pane's launch profile */
+	get profile(): LaunchProfile {
+		return this.pane?.profile ?? getProfile(this.plugin.settings);
+	}
 
-		// Track focus so the plugin knows which terminal was last active
-		this.focusDisposable = this.terminal.onData(() => {
-			this.plugin.setLastFocusedTerminal(this);
-		});
-		this.terminalContainer.addEventListener("focus", () => {
-			this.plugin.setLastFocusedTerminal(this);
-		}, { capture: true, signal });
+	/** Progress shown on the tab: the active pane's, or else the first pane reporting any */
+	get progress(): TerminalProgress {
+		const active = this.pane;
+		if (active && isActive(active.progress)) return active.progress;
+		return this.panes.find((pane) => isActive(pane.progress))?.progress ?? NO_PROGRESS;
+	}
 
-		// Drag-and-drop: accept files dragged from file explorer
-		this.terminalContainer.addEventListener("dragover", (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			this.terminalContainer?.addClass("claude-terminal-drop-active");
-		}, { signal });
+	/** Absolute working directory of the active pane's process, once spawned */
+	get workingDirectory(): string | null {
+		return this.pane?.workingDirectory ?? null;
+	}
 
-		this.terminalContainer.addEventListener("dragleave", () => {
-			this.terminalContainer?.removeClass("claude-terminal-drop-active");
-		}, { signal });
+	onPaneMenu(menu: Menu, source: string) {
+		super.onPaneMenu(menu, source);
+		for (const profile of this.plugin.settings.profiles) {
+			menu.addItem((item) => {
+				item.setTitle(`New terminal: ${profile.name}`)
+					.setIcon(profile.icon || "sparkles")
+					.setSection("open")
+					.onClick(() => this.plugin.openNewTerminal({ profileId: profile.id }));
+			});
+		}
+		const pane = this.pane;
+		if (pane) {
+			menu.addItem((item) => {
+				item.setTitle("Rename terminal")
+					.setIcon("pencil")
+					.setSection("pane")
+					.onClick(() => this.renamePane(pane));
+			});
+			pane.addSplitItems(menu);
+		}
+	}
 
-		this.terminalContainer.addEventListener("drop", (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-			this.terminalContainer?.removeClass("claude-terminal-drop-active");
-
-			const files = (this.app as any).dragManager?.draggable?.files as string[] | undefined;
-			const dragData = e.dataTransfer?.getData("text/plain");
-
-			if (files && files.length > 0) {
-				this.plugin.addFiles(files);
-			} else if (dragData) {
-				this.plugin.addFiles([dragData]);
-			}
-		}, { signal });
-
-		// Wait for the container to have real dimensions, then fit and spawn.
-		let retries = 0;
-		const waitForLayout = () => {
-			if (!this.terminalContainer || !this.terminal) return; // closed during wait
-			const rect = this.terminalContainer.getBoundingClientRect();
-			if (rect.width > 0 && rect.height > 0) {
-				this.waitForLayoutId = null;
-				this.fitAddon?.fit();
-				this.spawnPty();
-				this.startResizeObserver();
-			} else if (retries++ < MAX_LAYOUT_RETRIES) {
-				this.waitForLayoutId = requestAnimationFrame(waitForLayout);
-			} else {
-				this.waitForLayoutId = null;
-				console.warn("obsidian-shell: terminal container never acquired dimensions");
-				this._readyResolve?.();
-			}
+	getState(): Record<string, unknown> {
+		if (!this.root) return super.getState();
+		const state: TerminalViewState = {
+			layout: mapLayout(this.root, (pane) => pane.getState()),
 		};
-		this.waitForLayoutId = requestAnimationFrame(waitForLayout);
+		const index = this.activePane ? this.panes.indexOf(this.activePane) : -1;
+		if (index > 0) state.activePane = index;
+		return { ...super.getState(), ...state };
 	}
 
-	private startResizeObserver() {
-		if (!this.terminalContainer || !this.terminal) return;
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		// Once a process is running, the layout is live and saved state no longer applies
+		if (!this.panes.some((pane) => pane.isSpawned)) {
+			const saved: Record<string, unknown> = state && typeof state === "object" ? { ...state } : {};
+			// Without a layout, the fields of the view state are the single pane's
+			const root = parseLayout(saved.layout, parsePaneState) ?? { type: "pane", pane: parsePaneState(saved) };
+			const activePane = typeof saved.activePane === "number" ? saved.activePane : 0;
+			this.buildLayout(root, activePane);
+		}
+		await super.setState(state, result);
+	}
 
-		let resizeTimeout: ReturnType<typeof setTimeout> | null = null;
-		this.resizeObserver = new ResizeObserver(() => {
-			if (resizeTimeout) clearTimeout(resizeTimeout);
-			resizeTimeout = setTimeout(() => this.fitAddon?.fit(), 50);
-		});
-		this.resizeObserver.observe(this.terminalContainer);
+	async onOpen() {
+		this.contentEl.empty();
+		this.contentEl.addClass("claude-terminal-container");
+		if (!this.root) this.buildLayout({ type: "pane", pane: {} }, 0);
+
+		// Stop flashing the tab once it's seen
+		this.registerEvent(this.app.workspace.on("active-leaf-change", () => {
+			if (this.containerEl.isShown()) this.tabHeaderEl?.removeClass("claude-terminal-tab-attention");
+		}));
+	}
 
-		this.resizeDisposable = this.terminal.onResize(({ cols, rows }) => {
-			this.ptyManager?.resize(cols, rows);
-		});
+	async onClose() {
+		this.tabProgressEl?.remove();
+		this.tabProgressEl = null;
+		this.tabHeaderEl?.removeClass("claude-terminal-tab-attention");
+		this.panes.forEach((pane) => pane.dispose());
+		this.root = null;
+		this.activePane = null;
+		this.plugin.updateStatusBar();
+	}
+
+	/** Replace all panes with new ones created from saved state */
+	private buildLayout(layout: LayoutNode<PaneState>, activeIndex: number) {
+		this.panes.forEach((pane) => pane.dispose());
+		this.root = mapLayout(layout, (state) => this.createPane(state));
+		this.activePane = this.panes[activeIndex] ?? this.panes[0] ?? null;
+		this.render();
+		this.panes.forEach((pane) => pane.open());
 	}
 
-	private spawnPty() {
-		if (!this.terminal) return;
+	private createPane(state: PaneState): TerminalPane {
+		const pane = new TerminalPane(this, this.plugin, state);
+		pane.ready.then(() => this._readyResolve?.());
+		return pane;
+	}
+
+	/** Lay out the panes. Pane elements are moved, not recreated, so terminals keep running. */
+	private render() {
+		this.contentEl.empty();
+		if (this.root) this.contentEl.appendChild(this.renderNode(this.root));
+	}
 
-		// Clean up previous PTY and input listener to prevent double keystrokes
-		this.ptyManager?.kill();
-		this.inputDisposable?.dispose();
-		this.inputDisposable = null;
+	private renderNode(node: LayoutNode<TerminalPane>): HTMLElement {
+		if (node.type === "pane") return node.pane.containerEl;
 
-		const vaultPath = (this.app.vault.adapter as any).basePath as string;
-		const settings = this.plugin.settings;
+		const el = createDiv({ cls: `claude-terminal-split is-${node.direction}` });
+		const first = el.appendChild(this.renderNode(node.children[0]));
+		const divider = el.createDiv({ cls: "claude-terminal-divider" });
+		const second = el.appendChild(this.renderNode(node.children[1]));
 
-		this.ptyManager = new PtyManager();
+		const applyRatio = () => {
+			first.style.flex = `${node.ratio} 1 0`;
+			second.style.flex = `${1 - node.ratio} 1 0`;
+		};
+		applyRatio();
 
-		let command: string | undefined;
-		if (settings.autoLaunch) {
-			const flags = settings.claudeFlags ? ` ${settings.claudeFlags}` : "";
-			command = `claude${flags}`;
+		divider.addEventListener("pointerdown", (e) => {
+			e.preventDefault();
+			divider.setPointerCapture(e.pointerId);
+			divider.addClass("is-dragging");
+			const onMove = (move: PointerEvent) => {
+				const rect = el.getBoundingClientRect();
+				node.ratio = clampRatio(node.direction === "vertical"
+					? (move.clientX - rect.left) / rect.width
+					: (move.clientY - rect.top) / rect.height);
+				applyRatio();
+			};
+			// A drag can also end by cancellation or by losing the capture (e.g. the window blurs)
+			const endEvents = ["pointerup", "pointercancel", "lostpointercapture"] as const;
+			const onUp = () => {
+				divider.removeEventListener("pointermove", onMove);
+				endEvents.forEach((type) => divider.removeEventListener(type, onUp));
+				divider.removeClass("is-dragging");
+				this.app.workspace.requestSaveLayout();
+			};
+			divider.addEventListener("pointermove", onMove);
+			endEvents.forEach((type) => divider.addEventListener(type, onUp));
+		});
+		return el;
+	}
+
+	/** Called by a pane when it receives focus or input */
+	paneFocused(pane: TerminalPane) {
+		const changed = this.activePane !== pane;
+		this.activePane = pane;
+		this.plugin.setLastFocusedTerminal(this);
+		if (changed) {
+			this.updateHeader();
+			this.renderProgress();
 		}
+	}
 
-		try {
-			this.ptyManager.spawn({
-				shellPath: settings.shellPath || undefined,
-				cwd: vaultPath,
-				cols: this.terminal.cols,
-				rows: this.terminal.rows,
-				pluginDir: this.plugin.pluginDir,
-				command,
-				resolvedPath: this.plugin.resolvedPath || undefined,
-			});
-		} catch (err) {
-			this.terminal.writeln(`\r\n\x1b[31mFailed to spawn terminal: ${err}\x1b[0m`);
-			this.terminal.writeln("\x1b[33mMake sure node-pty is properly built for Obsidian's Electron.\x1b[0m");
-			this._readyResolve?.();
+	/** Called by a pane when its title changes */
+	titleChanged() {
+		this.updateHeader();
+		this.plugin.updateStatusBar();
+	}
+
+	/** Apply changed settings to every pane; profile names may have changed the titles */
+	applySettings() {
+		this.panes.forEach((pane) => pane.applySettings());
+		this.updateHeader();
+	}
+
+	/** Called by a pane when its OSC 9;4 progress changes */
+	progressChanged() {
+		this.renderProgress();
+		this.plugin.updateStatusBar();
+	}
+
+	/** Called by a pane when its progress ends; flashes the tab if it isn't visible */
+	progressFinished() {
+		if (!this.containerEl.isShown()) this.tabHeaderEl?.addClass("claude-terminal-tab-attention");
+	}
+
+	private renderProgress() {
+		const progress = this.progress;
+		const header = this.tabHeaderEl;
+		if (!header) return;
+		if (!isActive(progress)) {
+			this.tabProgressEl?.remove();
+			this.tabProgressEl = null;
 			return;
 		}
+		if (!this.tabProgressEl) {
+			this.tabProgressEl = header.createDiv();
+			this.tabProgressEl.createDiv({ cls: "claude-terminal-progress-bar" });
+		}
+		this.tabProgressEl.className = `claude-terminal-progress claude-terminal-tab-progress is-${progress.state}`;
+		const bar = this.tabProgressEl.firstElementChild as HTMLElement;
+		bar.style.width = progress.state === "indeterminate" ? "" : `${progress.percent ?? 0}%`;
+	}
 
-		// Wire PTY output → terminal display
-		this.ptyManager.onData((data) => {
-			this.terminal?.write(data);
-		});
+	/** The leaf's tab header. Not in the public API. */
+	private get tabHeaderEl(): HTMLElement | null {
+		return (this.leaf as WorkspaceLeaf & { tabHeaderEl?: HTMLElement }).tabHeaderEl ?? null;
+	}
+
+	/** Ask for a new name for `pane`; an empty name restores the automatic title */
+	renamePane(pane: TerminalPane) {
+		new RenameModal(this.app, "Rename terminal", pane.customName ?? "", pane.title, (name) => pane.rename(name)).open();
+	}
 
-		// Wire terminal input → PTY (single listener, tracked for disposal)
-		this.inputDisposable = this.terminal.onData((data) => {
-			this.ptyManager?.write(data);
+	/** Refresh the tab title and icon from the active pane */
+	private updateHeader() {
+		// Not in the public API, but the only way to refresh a leaf's tab title
+		(this.leaf as WorkspaceLeaf & { updateHeader?: () => void }).updateHeader?.();
+	}
+
+	/** Ask for a profile, then split `pane` and start it in the new half */
+	splitPane(pane: TerminalPane, direction: SplitDirection) {
+		const { profiles } = this.plugin.settings;
+		const split = (profile: LaunchProfile) => this.addPane(pane, direction, {
+			profileId: profile.id,
+			cwd: pane.cwdOverride ?? undefined,
 		});
+		if (profiles.length === 1) split(profiles[0]);
+		else new ProfileSuggestModal(this.app, profiles, split).open();
+	}
 
-		this._readyResolve?.();
+	private addPane(target: TerminalPane, direction: SplitDirection, state: PaneState) {
+		if (!this.root) return;
+		const pane = this.createPane(state);
+		this.root = splitPane(this.root, target, direction, pane);
+		this.activePane = pane;
+		this.render();
+		pane.open();
+		pane.ready.then(() => pane.focus());
+		this.app.workspace.requestSaveLayout();
 	}
 
-	private disposeTerminal() {
-		if (this.waitForLayoutId !== null) {
-			cancelAnimationFrame(this.waitForLayoutId);
-			this.waitForLayoutId = null;
+	/** Close a pane and stop its process. Closing the last pane closes the view. */
+	closePane(pane: TerminalPane) {
+		if (!this.root) return;
+		const remaining = removePane(this.root, pane);
+		if (!remaining) {
+			this.leaf.detach();
+			return;
 		}
-		this.abortController?.abort();
-		this.abortController = null;
-		this.resizeObserver?.disconnect();
-		this.resizeObserver = null;
-		this.resizeDisposable?.dispose();
-		this.resizeDisposable = null;
-		this.focusDisposable?.dispose();
-		this.focusDisposable = null;
-		this.inputDisposable?.dispose();
-		this.inputDisposable = null;
-		this.ptyManager?.kill();
-		this.ptyManager = null;
-		this.terminal?.dispose();
-		this.terminal = null;
-		this.fitAddon = null;
+		pane.dispose();
+		this.root = remaining;
+		if (this.activePane === pane) this.activePane = this.panes[0];
+		this.render();
+		this.updateHeader();
+		this.renderProgress();
+		this.activePane?.focus();
+		this.plugin.updateStatusBar();
+		this.app.workspace.requestSaveLayout();
 	}
 
-	async onClose() {
-		this.disposeTerminal();
-		this.terminalContainer = null;
+	/** Move focus to the pane beside `from` on the given side */
+	focusPaneInDirection(from: TerminalPane, direction: FocusDirection) {
+		const rects = new Map<TerminalPane, PaneRect>();
+		for (const pane of this.panes) rects.set(pane, pane.containerEl.getBoundingClientRect());
+		paneInDirection(rects, from, direction)?.focus();
+	}
+
+	/** Cycle focus through panes in layout order */
+	focusNextPane(step = 1) {
+		const panes = this.panes;
+		if (panes.length < 2) return;
+		const index = this.activePane ? panes.indexOf(this.activePane) : 0;
+		panes[(index + step + panes.length) % panes.length].focus();
+	}
+
+	// --- Active pane ---
+
+	getBufferText(scope: BufferScope): string | null {
+		return this.pane?.getBufferText(scope) ?? null;
 	}
 
 	restart() {
-		if (!this.terminal) return;
-		this.terminal.clear();
-		this.terminal.reset();
-		this.spawnPty();
+		this.pane?.restart();
 	}
 
 	sendToTerminal(command: string) {
-		this.ptyManager?.sendCommand(command);
+		this.pane?.sendToTerminal(command);
 	}
 
 	typeInTerminal(text: string) {
-		this.ptyManager?.sendText(text);
+		this.pane?.typeInTerminal(text);
 	}
 
 	focusTerminal() {
-		this.terminal?.focus();
+		this.pane?.focus();
+	}
+
+	openFind() {
+		this.pane?.openFind();
 	}
 }
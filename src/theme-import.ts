@@ -0,0 +1,147 @@
+import type { TerminalColors } from "./constants";
+import { ANSI_COLOR_KEYS, TerminalColorKey, isHexColor } from "./terminal-theme";
+
+/**
+ * Parsers for color scheme files from other terminals: iTerm2
+ * `.itermcolors`, Windows Terminal JSON schemes and base16 YAML.
+ */
+
+export interface ImportedTheme {
+	/** Scheme name from the file, if it has one */
+	name: string;
+	colors: Partial<TerminalColors>;
+}
+
+const ITERM_KEYS: Record<string, TerminalColorKey> = {
+	"Background Color": "background",
+	"Foreground Color": "foreground",
+	"Cursor Color": "cursor",
+	"Cursor Text Color": "cursorAccent",
+	"Selection Color": "selectionBackground",
+	"Selected Text Color": "selectionForeground",
+	...Object.fromEntries(ANSI_COLOR_KEYS.map((key, i) => [`Ansi ${i} Color`, key])),
+};
+
+/** Windows Terminal names magenta "purple" */
+const WINDOWS_TERMINAL_KEYS: Record<string, TerminalColorKey> = {
+	background: "background",
+	foreground: "foreground",
+	cursorColor: "cursor",
+	selectionBackground: "selectionBackground",
+	...Object.fromEntries(ANSI_COLOR_KEYS.map((key) => [key, key])),
+	purple: "magenta",
+	brightPurple: "brightMagenta",
+};
+
+/** The base16 shell mapping of the 16 base colors to terminal colors */
+const BASE16_KEYS: Record<TerminalColorKey, string> = {
+	background: "base00",
+	foreground: "base05",
+	cursor: "base05",
+	cursorAccent: "base00",
+	selectionBackground: "base02",
+	selectionForeground: "base05",
+	black: "base00",
+	red: "base08",
+	green: "base0B",
+	yellow: "base0A",
+	blue: "base0D",
+	magenta: "base0E",
+	cyan: "base0C",
+	white: "base05",
+	brightBlack: "base03",
+	brightRed: "base08",
+	brightGreen: "base0B",
+	brightYellow: "base0A",
+	brightBlue: "base0D",
+	brightMagenta: "base0E",
+	brightCyan: "base0C",
+	brightWhite: "base07",
+};
+
+function toHex(component: number): string {
+	return Math.round(Math.min(1, Math.max(0, component)) * 255).toString(16).padStart(2, "0");
+}
+
+/** Lowercase #rrggbb, or null if `value` isn't a hex color */
+function normalizeHex(value: unknown): string | null {
+	if (typeof value !== "string") return null;
+	const hex = value.trim().startsWith("#") ? value.trim() : `#${value.trim()}`;
+	if (!isHexColor(hex)) return null;
+	const digits = hex.slice(1).toLowerCase();
+	return digits.length === 3 ? `#${digits.replace(/./g, "$&$&")}` : `#${digits}`;
+}
+
+/** iTerm2 color presets are property lists with 0–1 RGB components per color */
+export function parseItermColors(content: string): ImportedTheme {
+	const colors: Partial<TerminalColors> = {};
+	const entry = /<key>([^<]+)<\/key>\s*<dict>([\s\S]*?)<\/dict>/g;
+	for (const [, name, body] of content.matchAll(entry)) {
+		const key = ITERM_KEYS[name.trim()];
+		if (!key) continue;
+		const rgb: Record<string, number> = {};
+		const component = /<key>(Red|Green|Blue) Component<\/key>\s*<(?:real|integer)>([^<]+)<\/(?:real|integer)>/g;
+		for (const [, channel, value] of body.matchAll(component)) rgb[channel] = Number(value);
+		if ([rgb.Red, rgb.Green, rgb.Blue].every((value) => Number.isFinite(value))) {
+			colors[key] = `#${toHex(rgb.Red)}${toHex(rgb.Green)}${toHex(rgb.Blue)}`;
+		}
+	}
+	return { name: "", colors };
+}
+
+/** A Windows Terminal scheme, a list of them, or a settings file with `schemes` (the first is used) */
+export function parseWindowsTerminalScheme(content: string): ImportedTheme {
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch {
+		throw new Error("The file isn't valid JSON.");
+	}
+	const schemes = data && typeof data === "object" && !Array.isArray(data)
+		? (data as Record<string, unknown>).schemes
+		: undefined;
+	const found: unknown = Array.isArray(data) ? data[0] : Array.isArray(schemes) ? schemes[0] : data;
+	const scheme = (found && typeof found === "object" ? found : {}) as Record<string, unknown>;
+	const colors: Partial<TerminalColors> = {};
+	for (const [name, key] of Object.entries(WINDOWS_TERMINAL_KEYS)) {
+		const hex = normalizeHex(scheme[name]);
+		if (hex) colors[key] = hex;
+	}
+	return { name: typeof scheme.name === "string" ? scheme.name : "", colors };
+}
+
+/** base16 scheme YAML, either flat (`base00: "1d1f21"`) or under `palette:` */
+export function parseBase16Yaml(content: string): ImportedTheme {
+	const base: Record<string, string> = {};
+	for (const [, name, value] of content.matchAll(/^\s*(base0[0-9a-f])\s*:\s*["']?(#?[0-9a-f]{6})\b/gim)) {
+		const hex = normalizeHex(value);
+		if (hex) base[name.slice(0, 5) + name[5].toUpperCase()] = hex;
+	}
+	const colors: Partial<TerminalColors> = {};
+	for (const [key, name] of Object.entries(BASE16_KEYS) as [TerminalColorKey, string][]) {
+		if (base[name]) colors[key] = base[name];
+	}
+	const name = /^(?:scheme|name)\s*:\s*["']?(.+?)["']?\s*$/m.exec(content)?.[1] ?? "";
+	return { name, colors };
+}
+
+/**
+ * Read a theme file, choosing the parser by extension (or by content when
+ * the extension is unknown). Throws if the file has no usable colors.
+ */
+export function importThemeFile(fileName: string, content: string): ImportedTheme {
+	const extension = fileName.toLowerCase().split(".").pop() ?? "";
+	let theme: ImportedTheme;
+	if (extension === "itermcolors" || (extension !== "json" && content.includes("<plist"))) {
+		theme = parseItermColors(content);
+	} else if (extension === "json" || content.trimStart().startsWith("{") || content.trimStart().startsWith("[")) {
+		theme = parseWindowsTerminalScheme(content);
+	} else {
+		theme = parseBase16Yaml(content);
+	}
+	if (Object.keys(theme.colors).length === 0) {
+		throw new Error("No terminal colors found. Supported files: iTerm2 .itermcolors, Windows Terminal JSON and base16 YAML.");
+	}
+	if (!theme.name) theme.name = fileName.replace(/\.[^.]+$/, "");
+	return theme;
+}
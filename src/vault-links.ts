@@ -0,0 +1,152 @@
+import { App, Keymap, MarkdownView, TFile } from "obsidian";
+import type { Terminal, ILink, ILinkProvider, IBufferLine } from "@xterm/xterm";
+import * as path from "path";
+
+export interface PathMatch {
+	/** Index of the first character of the match (including any leading @) */
+	start: number;
+	/** Index just past the last character of the match (including :line:col) */
+	end: number;
+	path: string;
+	line?: number;
+	col?: number;
+}
+
+// Characters allowed in a path segment. Excludes whitespace, quotes, brackets
+// and punctuation that usually surrounds a path in prose or tool output.
+const SEG = "[^\\s/:\"'`()<>\\[\\]{},;|*?@]";
+const LOCATION = "(?::(\\d+)(?::(\\d+))?)?";
+const PATH_PATTERN = new RegExp(
+	// @mention: anything path-like, extension optional
+	`@((?:${SEG}+/)*${SEG}+)${LOCATION}` +
+	// bare path: must end in an extension to avoid matching ordinary words
+	`|((?:\\.{1,2})?/?(?:${SEG}+/)*${SEG}+\\.[A-Za-z0-9]+)${LOCATION}`,
+	"g",
+);
+
+/** Find path-like substrings in a line of terminal output */
+export function findPathCandidates(text: string): PathMatch[] {
+	const matches: PathMatch[] = [];
+	for (const m of text.matchAll(PATH_PATTERN)) {
+		const [full, mentionPath, mentionLine, mentionCol, barePath, bareLine, bareCol] = m;
+		const start = m.index ?? 0;
+		const isMention = mentionPath !== undefined;
+		// Don't match the tail of a longer token, e.g. the "b.md" in "a-b.md"
+		if (!isMention && start > 0 && /[\w.\-/]/.test(text[start - 1])) continue;
+
+		const line = isMention ? mentionLine : bareLine;
+		const col = isMention ? mentionCol : bareCol;
+		const rawPath = isMention ? mentionPath : barePath;
+		// Trailing dots are sentence punctuation, not part of the path
+		const cleanPath = rawPath.replace(/\.+$/, "");
+		matches.push({
+			start,
+			end: start + full.length - (rawPath.length - cleanPath.length),
+			path: cleanPath,
+			line: line ? parseInt(line, 10) : undefined,
+			col: col ? parseInt(col, 10) : undefined,
+		});
+	}
+	return matches;
+}
+
+/**
+ * Resolve a path from terminal output to a vault-relative path. Relative
+ * paths are tried against the terminal's cwd first, then the vault root.
+ * Returns null if the path is outside the vault or isn't a file.
+ */
+export function resolveVaultPath(
+	candidate: string,
+	vaultPath: string,
+	cwd: string,
+	isFile: (vaultRelative: string) => boolean,
+): string | null {
+	const bases = path.isAbsolute(candidate) ? [""] : [cwd, vaultPath];
+	for (const base of bases) {
+		const absolute = path.resolve(base || "/", candidate);
+		const relative = path.relative(vaultPath, absolute);
+		if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) continue;
+		const vaultRelative = relative.split(path.sep).join("/");
+		if (isFile(vaultRelative)) return vaultRelative;
+	}
+	return null;
+}
+
+/**
+ * The cell column where each UTF-16 index of `line.translateToString()`
+ * starts, plus one entry for the end of the text. Wide characters (CJK,
+ * emoji) take two cells and surrogate pairs two indices, so the two differ.
+ */
+export function stringColumns(line: Pick<IBufferLine, "length" | "getCell">): number[] {
+	const columns: number[] = [];
+	for (let x = 0; x < line.length; x++) {
+		const cell = line.getCell(x);
+		if (!cell) break;
+		// The second half of a wide character has no text of its own
+		if (cell.getWidth() === 0) continue;
+		const chars = cell.getChars() || " ";
+		for (let i = 0; i < chars.length; i++) columns.push(x);
+	}
+	columns.push(line.length);
+	return columns;
+}
+
+/**
+ * xterm link provider that makes vault file paths in terminal output
+ * clickable. `path:line[:col]` opens the note scrolled to that line.
+ */
+export class VaultLinkProvider implements ILinkProvider {
+	private app: App;
+	private terminal: Terminal;
+	private getCwd: () => string | null;
+
+	constructor(app: App, terminal: Terminal, getCwd: () => string | null) {
+		this.app = app;
+		this.terminal = terminal;
+		this.getCwd = getCwd;
+	}
+
+	provideLinks(bufferLineNumber: number, callback: (links: ILink[] | undefined) => void) {
+		const line = this.terminal.buffer.active.getLine(bufferLineNumber - 1);
+		if (!line) {
+			callback(undefined);
+			return;
+		}
+
+		const vaultPath = (this.app.vault.adapter as any).basePath as string;
+		const cwd = this.getCwd() ?? vaultPath;
+		const isFile = (p: string) => this.app.vault.getAbstractFileByPath(p) instanceof TFile;
+
+		const text = line.translateToString(true);
+		const columns = stringColumns(line);
+		const links: ILink[] = [];
+		for (const match of findPathCandidates(text)) {
+			const vaultRelative = resolveVaultPath(match.path, vaultPath, cwd, isFile);
+			if (!vaultRelative) continue;
+			// Ranges are 1-based and inclusive: the last cell is the one before the next character
+			links.push({
+				range: {
+					start: { x: columns[match.start] + 1, y: bufferLineNumber },
+					end: { x: columns[match.end], y: bufferLineNumber },
+				},
+				text: text.slice(match.start, match.end),
+				activate: (event) => this.open(vaultRelative, match.line, match.col, event),
+			});
+		}
+		callback(links.length > 0 ? links : undefined);
+	}
+
+	private async open(vaultRelative: string, line: number | undefined, col: number | undefined, event: MouseEvent) {
+		const file = this.app.vault.getAbstractFileByPath(vaultRelative);
+		if (!(file instanceof TFile)) return;
+
+		const leaf = this.app.workspace.getLeaf(Keymap.isModEvent(event));
+		await leaf.openFile(file);
+		if (line === undefined || !(leaf.view instanceof MarkdownView)) return;
+
+		const editor = leaf.view.editor;
+		const pos = { line: Math.max(0, Math.min(line - 1, editor.lastLine())), ch: col ? col - 1 : 0 };
+		editor.setCursor(pos);
+		editor.scrollIntoView({ from: pos, to: pos }, true);
+	}
+}
@@ -0,0 +1,179 @@
+import { App, MarkdownView, TFile, getAllTags, prepareSimpleSearch } from "obsidian";
+import { McpTool, ToolError } from "./mcp-server";
+import { hasTag, countTags } from "./context-sets";
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const SNIPPET_CONTEXT = 60;
+
+/** Split `[[Note#Heading|alias]]` (brackets optional) into link path and subpath */
+export function parseWikilink(text: string): { linkpath: string; subpath: string } {
+	const inner = text.trim().replace(/^!?\[\[/, "").replace(/\]\]$/, "").split("|")[0];
+	const hash = inner.indexOf("#");
+	return hash === -1
+		? { linkpath: inner.trim(), subpath: "" }
+		: { linkpath: inner.slice(0, hash).trim(), subpath: inner.slice(hash) };
+}
+
+/** A single line of context around a search match */
+export function snippet(text: string, start: number, end: number): string {
+	const from = Math.max(0, start - SNIPPET_CONTEXT);
+	const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+	return (from > 0 ? "…" : "") + text.slice(from, to).replace(/\s+/g, " ").trim() + (to < text.length ? "…" : "");
+}
+
+/**
+ * MCP tools backed by Obsidian's own index, so Claude can use the link
+ * graph, tags and properties instead of re-deriving them with grep.
+ */
+export function createVaultTools(app: App): McpTool[] {
+	const { vault, metadataCache, workspace } = app;
+
+	const getFile = (path: unknown): TFile => {
+		if (typeof path !== "string" || !path) throw new ToolError("`path` is required");
+		const file = vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) throw new ToolError(`No file at ${path}`);
+		return file;
+	};
+
+	return [
+		{
+			name: "resolve_wikilink",
+			description: "Resolve an Obsidian [[wikilink]] to a vault path the way Obsidian does (shortest path, aliases ignored).",
+			inputSchema: {
+				type: "object",
+				properties: {
+					link: { type: "string", description: "Link text, e.g. \"[[Project Plan#Goals]]\" or \"Project Plan\"" },
+					from: { type: "string", description: "Path of the note containing the link (affects relative resolution)" },
+				},
+				required: ["link"],
+			},
+			handler: ({ link, from }) => {
+				const { linkpath, subpath } = parseWikilink(String(link ?? ""));
+				const file = metadataCache.getFirstLinkpathDest(linkpath, typeof from === "string" ? from : "");
+				if (!file) throw new ToolError(`Link does not resolve: ${link}`);
+				return { path: file.path, subpath: subpath || undefined };
+			},
+		},
+		{
+			name: "get_backlinks",
+			description: "List notes that link to the given note, with link counts.",
+			inputSchema: {
+				type: "object",
+				properties: { path: { type: "string", description: "Vault-relative path of the note" } },
+				required: ["path"],
+			},
+			handler: ({ path }) => {
+				const file = getFile(path);
+				return Object.entries(metadataCache.resolvedLinks)
+					.filter(([, dests]) => dests[file.path])
+					.map(([source, dests]) => ({ path: source, count: dests[file.path] }));
+			},
+		},
+		{
+			name: "get_outgoing_links",
+			description: "List the notes a note links to, plus links that don't resolve to any file.",
+			inputSchema: {
+				type: "object",
+				properties: { path: { type: "string", description: "Vault-relative path of the note" } },
+				required: ["path"],
+			},
+			handler: ({ path }) => {
+				const file = getFile(path);
+				return {
+					resolved: Object.keys(metadataCache.resolvedLinks[file.path] ?? {}),
+					unresolved: Object.keys(metadataCache.unresolvedLinks[file.path] ?? {}),
+				};
+			},
+		},
+		{
+			name: "query_tags",
+			description: "Without `tag`, list all tags with note counts. With `tag`, list notes that have it (nested tags included).",
+			inputSchema: {
+				type: "object",
+				properties: { tag: { type: "string", description: "Tag to look up, e.g. \"#project/alpha\"" } },
+			},
+			handler: ({ tag }) => {
+				const files = vault.getMarkdownFiles();
+				const tagsPerFile = files.map((f) => {
+					const cache = metadataCache.getFileCache(f);
+					return (cache && getAllTags(cache)) ?? [];
+				});
+				if (typeof tag !== "string" || !tag) {
+					return countTags(tagsPerFile).map(([name, count]) => ({ tag: name, count }));
+				}
+				return files.filter((_, i) => hasTag(tagsPerFile[i], tag)).map((f) => f.path);
+			},
+		},
+		{
+			name: "query_frontmatter",
+			description: "With `path`, return that note's frontmatter. Otherwise list notes whose frontmatter has `key` (optionally equal to `value`).",
+			inputSchema: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Vault-relative path of a note" },
+					key: { type: "string", description: "Property name to look for" },
+					value: { type: "string", description: "Only match notes where the property equals (or contains) this value" },
+				},
+			},
+			handler: ({ path, key, value }) => {
+				if (path) return metadataCache.getFileCache(getFile(path))?.frontmatter ?? {};
+				if (typeof key !== "string" || !key) throw new ToolError("Pass either `path` or `key`");
+
+				const matches = (v: unknown): boolean => {
+					if (value === undefined) return v !== undefined;
+					if (Array.isArray(v)) return v.some(matches);
+					return v !== undefined && v !== null && String(v) === String(value);
+				};
+				return vault.getMarkdownFiles()
+					.map((f) => ({ path: f.path, value: metadataCache.getFileCache(f)?.frontmatter?.[key] }))
+					.filter((entry) => matches(entry.value));
+			},
+		},
+		{
+			name: "search_vault",
+			description: "Search note paths and contents with Obsidian's simple search (all words must match). Returns paths with a snippet.",
+			inputSchema: {
+				type: "object",
+				properties: {
+					query: { type: "string" },
+					limit: { type: "number", description: `Maximum results (default ${DEFAULT_SEARCH_LIMIT})` },
+				},
+				required: ["query"],
+			},
+			handler: async ({ query, limit }) => {
+				if (typeof query !== "string" || !query.trim()) throw new ToolError("`query` is required");
+				const search = prepareSimpleSearch(query);
+				const max = typeof limit === "number" && limit > 0 ? limit : DEFAULT_SEARCH_LIMIT;
+				const results: { path: string; snippet?: string }[] = [];
+				for (const file of vault.getMarkdownFiles()) {
+					if (results.length >= max) break;
+					const content = await vault.cachedRead(file);
+					const match = search(content);
+					if (match) {
+						const [start, end] = match.matches[0] ?? [0, 0];
+						results.push({ path: file.path, snippet: snippet(content, start, end) });
+					} else if (search(file.path)) {
+						results.push({ path: file.path });
+					}
+				}
+				return results;
+			},
+		},
+		{
+			name: "get_active_note",
+			description: "Return the note the user is looking at in Obsidian, with the current selection and cursor line.",
+			inputSchema: { type: "object", properties: {} },
+			handler: () => {
+				// The terminal usually has focus, so use the most recent editor leaf
+				const view = workspace.getMostRecentLeaf()?.view;
+				if (!(view instanceof MarkdownView) || !view.file) throw new ToolError("No note is open");
+				const { editor } = view;
+				return {
+					path: view.file.path,
+					selection: editor.getSelection() || null,
+					cursorLine: editor.getCursor().line + 1,
+				};
+			},
+		},
+	];
+}
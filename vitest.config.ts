@@ -12,6 +12,8 @@ export default defineConfig({
 			"@xterm/addon-fit": path.resolve(__dirname, "src/__tests__/__mocks__/xterm-addon-fit.ts"),
 			"@xterm/addon-unicode11": path.resolve(__dirname, "src/__tests__/__mocks__/xterm-addon-stub.ts"),
 			"@xterm/addon-web-links": path.resolve(__dirname, "src/__tests__/__mocks__/xterm-addon-stub.ts"),
+			"@xterm/addon-search": path.resolve(__dirname, "src/__tests__/__mocks__/xterm-addon-stub.ts"),
+			"@xterm/addon-serialize": path.resolve(__dirname, "src/__tests__/__mocks__/xterm-addon-stub.ts"),
 		},
 	},
 });